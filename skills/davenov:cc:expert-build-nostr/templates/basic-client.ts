@@ -5,10 +5,66 @@
  * relay connection, publishing, and subscriptions.
  */
 
-import { generateSecretKey, getPublicKey, finalizeEvent, verifyEvent } from 'nostr-tools/pure'
-import { SimplePool } from 'nostr-tools/pool'
+import { generateSecretKey, getPublicKey } from 'nostr-tools/pure'
 import * as nip19 from 'nostr-tools/nip19'
-import type { Event, Filter } from 'nostr-tools'
+import * as nip49 from 'nostr-tools/nip49'
+import { bech32 } from '@scure/base'
+import type { Event, EventTemplate, Filter } from 'nostr-tools'
+import { LocalKeySigner } from './signer'
+import type { Signer } from './signer'
+import { publishToRelays, PublishError } from './relay-publisher'
+import type { PublishPolicy, PublishReport } from './relay-publisher'
+import { OutboxRouter, buildRelayListTemplate, DEFAULT_INDEX_RELAYS } from './outbox'
+import type { RelayList, RelayListEntry } from './outbox'
+import type { SubCloser } from 'nostr-tools/pool'
+import { MemoryEventStore } from './event-store'
+import type { EventStore } from './event-store'
+import {
+  parseProfile,
+  buildProfileTemplate,
+  parseContacts,
+  buildContactListTemplate,
+  lookupNip05,
+  verifyNip05,
+  PROFILE_KIND,
+  CONTACT_LIST_KIND
+} from './profile'
+import type { Contact, Nip05Result, Profile, ProfileMetadata } from './profile'
+import {
+  buildReplyTemplate,
+  buildReactionTemplate,
+  buildRepostTemplate,
+  buildThreadTree,
+  NOTE_KIND
+} from './threads'
+import type { EventRef, ThreadNode } from './threads'
+import { paginate } from './pagination'
+import type { PaginateOptions } from './pagination'
+import { EventValidator } from './event-validator'
+import type { InvalidEventReport, ValidationPolicy } from './event-validator'
+import { RelayAuthenticator } from './relay-auth'
+import type { AuthPolicy, RelayAuthStatus } from './relay-auth'
+import { encodeNprofile, encodeNevent, encodeNaddr, parseEntity, formatAddress, addressFilter } from './entities'
+import type { ResolvedEntity } from './entities'
+import { mineTemplate } from './pow'
+import type { PowOptions } from './pow'
+import {
+  createRumor,
+  wrapForRecipient,
+  unwrapGiftWrap,
+  toDirectMessage,
+  groupConversations,
+  parseDmRelays,
+  buildDmRelayListTemplate,
+  GIFT_WRAP_KIND,
+  DM_RELAYS_KIND,
+  TIMESTAMP_JITTER_SECONDS
+} from './direct-messages'
+import type { Conversation, DirectMessage } from './direct-messages'
+import { SubscriptionManager } from './subscription-manager'
+import type { SubscriptionManagerOptions } from './subscription-manager'
+import { RelayManager } from './relay-manager'
+import type { RelayManagerOptions, RelayStatus } from './relay-manager'
 
 // ============================================================================
 // Configuration
@@ -20,6 +76,9 @@ const DEFAULT_RELAYS = [
   'wss://nos.lol'
 ]
 
+// Message ids subscribeToDMs remembers, to skip copies from other relays
+const MAX_SEEN_DMS = 10000
+
 // ============================================================================
 // Key Management
 // ============================================================================
@@ -29,8 +88,15 @@ interface KeyPair {
   pk: string
   nsec: string
   npub: string
+  // NIP-49 key-security byte, kept across encrypted export/import
+  keySecurity?: KeySecurity
 }
 
+// 0x00: known to have been handled insecurely (e.g. pasted in clear)
+// 0x01: not known to have been handled insecurely
+// 0x02: unknown
+type KeySecurity = 0x00 | 0x01 | 0x02
+
 function generateKeyPair(): KeyPair {
   const sk = generateSecretKey()
   const pk = getPublicKey(sk)
@@ -58,83 +124,689 @@ function importKeyPair(nsec: string): KeyPair {
   }
 }
 
+// ----------------------------------------------------------------------------
+// Password Encryption (NIP-49)
+// ----------------------------------------------------------------------------
+
+// scrypt needs 2^logN * 1 KiB of memory: 16 = 64 MiB, 20 = 1 GiB
+const MIN_LOG_N = 16
+const MAX_LOG_N = 22
+
+type NcryptsecErrorCode = 'wrong-password' | 'corrupt' | 'unsupported'
+
+class NcryptsecError extends Error {
+  readonly code: NcryptsecErrorCode
+
+  constructor(code: NcryptsecErrorCode, message: string) {
+    super(message)
+    this.name = 'NcryptsecError'
+    this.code = code
+  }
+}
+
+function exportEncrypted(
+  keyPair: KeyPair,
+  password: string,
+  options: { logN?: number; keySecurity?: KeySecurity } = {}
+): string {
+  const logN = options.logN ?? MIN_LOG_N
+  if (!Number.isInteger(logN) || logN < MIN_LOG_N || logN > MAX_LOG_N) {
+    throw new RangeError(`logN must be an integer from ${MIN_LOG_N} to ${MAX_LOG_N}, got ${logN}`)
+  }
+  if (!password) throw new Error('Password must not be empty')
+
+  const keySecurity = options.keySecurity ?? keyPair.keySecurity ?? 0x02
+  return nip49.encrypt(keyPair.sk, password, logN, keySecurity)
+}
+
+/**
+ * Decrypt an ncryptsec. Throws NcryptsecError with code `corrupt`
+ * (bad checksum or layout), `unsupported` (unknown version, or a
+ * logN too costly to attempt) or `wrong-password`.
+ */
+function importEncrypted(ncryptsec: string, password: string): KeyPair {
+  let bytes: Uint8Array
+  try {
+    const { prefix, words } = bech32.decode(ncryptsec.trim() as `${string}1${string}`, nip19.Bech32MaxSize)
+    if (prefix !== 'ncryptsec') throw new Error(`expected ncryptsec, got ${prefix}`)
+    bytes = bech32.fromWords(words)
+  } catch {
+    // bech32 errors echo the input; keep the ciphertext out of logs
+    throw new NcryptsecError('corrupt', 'Not a valid ncryptsec (bad encoding or checksum)')
+  }
+
+  // version, logN, salt(16), nonce(24), key-security, ciphertext(48)
+  if (bytes.length !== 91) {
+    throw new NcryptsecError('corrupt', `ncryptsec has ${bytes.length} bytes, expected 91`)
+  }
+  if (bytes[0] !== 0x02) {
+    throw new NcryptsecError('unsupported', `Unsupported ncryptsec version ${bytes[0]}`)
+  }
+  if (bytes[1] > MAX_LOG_N) {
+    throw new NcryptsecError('unsupported', `ncryptsec logN ${bytes[1]} exceeds the limit of ${MAX_LOG_N}`)
+  }
+  const keySecurity = bytes[42]
+  if (keySecurity > 0x02) {
+    throw new NcryptsecError('corrupt', `Unknown key-security byte ${keySecurity}`)
+  }
+
+  let sk: Uint8Array
+  try {
+    sk = nip49.decrypt(ncryptsec.trim(), password)
+  } catch {
+    // The checksum passed, so a failed AEAD tag almost always means
+    // a wrong password rather than damaged data
+    throw new NcryptsecError('wrong-password', 'Wrong password for this ncryptsec')
+  }
+
+  return { ...importKeyPair(nip19.nsecEncode(sk)), keySecurity: keySecurity as KeySecurity }
+}
+
 // ============================================================================
 // Nostr Client
 // ============================================================================
 
 interface NostrClientOptions {
   relays?: string[]
+  // Any Signer (local key, NIP-07 extension, NIP-46 bunker)
+  signer?: Signer
+  // Shortcut for a LocalKeySigner; ignored when signer is set
   keyPair?: KeyPair
+  // Defaults for every publish; override per call
+  publishPolicy?: Partial<PublishPolicy>
+  // NIP-65 routing; `relays` become the fallback. Default: true
+  outbox?: boolean
+  // Where kind 10002 relay lists are looked up
+  indexRelays?: string[]
+  // Cache for every event seen. Default: in-memory
+  store?: EventStore
+  // Used for NIP-05 lookups; inject to test against a local server
+  fetch?: typeof fetch
+  // Signature/id checks on incoming events. Default: verify all
+  validation?: Partial<ValidationPolicy>
+  onInvalidEvent?: (report: InvalidEventReport) => void
+  // Reconnect backoff, latency pings, NIP-11 cache
+  relayManager?: RelayManagerOptions
+  // REQ batching and per-relay limits for subscribe()
+  subscriptions?: SubscriptionManagerOptions
+  // NIP-42: relays we answer AUTH challenges for. Default: none
+  auth?: AuthPolicy
+  onAuthStatusChange?: (status: RelayAuthStatus) => void
+}
+
+// Publish policy overrides plus NIP-13 proof of work
+type PublishOptions = Partial<PublishPolicy> & { pow?: PowOptions }
+
+interface DirectMessageReport {
+  message: DirectMessage
+  // One gift wrap per recipient (and one for our own copy)
+  reports: Record<string, PublishReport>
 }
 
 class NostrClient {
-  private pool: SimplePool
+  private pool: RelayManager
+  private subscriptions: SubscriptionManager
   private relays: string[]
-  private keyPair: KeyPair
+  private signer: Signer
+  private auth: RelayAuthenticator
+  private publishPolicy: Partial<PublishPolicy>
+  private outbox: OutboxRouter | null
+  private indexRelays: string[]
+  private store: EventStore
+  private fetchImpl?: typeof fetch
+  // Serializes contact list read-modify-write cycles
+  private contactsLock: Promise<unknown> = Promise.resolve()
 
   constructor(options: NostrClientOptions = {}) {
-    this.pool = new SimplePool()
+    this.pool = new RelayManager({ fetch: options.fetch, ...options.relayManager })
+    // Remember where events were seen, for relay hints
+    this.pool.trackRelays = true
+    new EventValidator(options.validation, options.onInvalidEvent).install(this.pool)
+    this.subscriptions = new SubscriptionManager(this.pool, {
+      getRelayInfo: url => this.pool.getRelayInfo(url),
+      ...options.subscriptions
+    })
     this.relays = options.relays ?? DEFAULT_RELAYS
-    this.keyPair = options.keyPair ?? generateKeyPair()
+    this.signer = options.signer ?? new LocalKeySigner((options.keyPair ?? generateKeyPair()).sk)
+    this.auth = new RelayAuthenticator(this.signer, options.auth, { onStatusChange: options.onAuthStatusChange })
+    this.auth.install(this.pool)
+    this.publishPolicy = options.publishPolicy ?? {}
+    this.indexRelays = options.indexRelays ?? DEFAULT_INDEX_RELAYS
+    this.outbox = options.outbox === false
+      ? null
+      : new OutboxRouter(this.pool, { fallbackRelays: this.relays, indexRelays: this.indexRelays })
+    this.store = options.store ?? new MemoryEventStore()
+    this.fetchImpl = options.fetch
+  }
+
+  // Connection state, latency and NIP-11 info for every relay in use
+  get relayManager(): RelayManager {
+    return this.pool
+  }
+
+  // NIP-42 state of every relay we have connected to
+  getAuthStatus(): RelayAuthStatus[] {
+    return this.auth.getAllStatus()
   }
 
-  // Getters
-  get publicKey(): string {
-    return this.keyPair.pk
+  // Getters (async because remote signers must be asked)
+  async getPublicKey(): Promise<string> {
+    return this.signer.getPublicKey()
   }
 
-  get npub(): string {
-    return this.keyPair.npub
+  async getNpub(): Promise<string> {
+    return nip19.npubEncode(await this.getPublicKey())
   }
 
   // Publishing
-  async publish(kind: number, content: string, tags: string[][] = []): Promise<Event> {
-    const event = finalizeEvent({
+  async publish(
+    kind: number,
+    content: string,
+    tags: string[][] = [],
+    options: PublishOptions = {}
+  ): Promise<PublishReport> {
+    return this.publishTemplate({
       kind,
       created_at: Math.floor(Date.now() / 1000),
       tags,
       content
-    }, this.keyPair.sk)
+    }, options)
+  }
 
-    await Promise.any(this.pool.publish(this.relays, event))
-    return event
+  private async publishTemplate(
+    template: EventTemplate,
+    { pow, ...policy }: PublishOptions = {}
+  ): Promise<PublishReport> {
+    if (pow) {
+      template = await mineTemplate(template, await this.getPublicKey(), pow)
+    }
+
+    const event = await this.signer.signEvent(template)
+    await this.store.save(event)
+
+    const candidates = this.outbox ? await this.outbox.publishRelaysFor(event) : this.relays
+    // Skip relays whose NIP-11 limits would refuse the event
+    const relays = await this.pool.selectRelays(candidates, { event })
+    return publishToRelays(this.pool, relays, event, { ...this.publishPolicy, ...policy })
+  }
+
+  async publishNote(content: string, options: PublishOptions = {}): Promise<PublishReport> {
+    return this.publish(NOTE_KIND, content, [], options)
+  }
+
+  // Social (NIP-10, NIP-18, NIP-25)
+  private relayHints(eventId: string): string[] {
+    return [...(this.pool.seenOn.get(eventId) ?? [])].map(relay => relay.url)
+  }
+
+  private relayHint(eventId: string): string {
+    return this.relayHints(eventId)[0] ?? ''
+  }
+
+  // `mentions`: pubkeys to notify, or events to cite
+  async reply(parent: Event, content: string, mentions: (string | EventRef)[] = []): Promise<PublishReport> {
+    return this.publishTemplate(buildReplyTemplate(parent, content, {
+      relayHint: this.relayHint(parent.id),
+      mentions,
+      selfPk: await this.getPublicKey()
+    }))
+  }
+
+  async react(event: Event, content = '+'): Promise<PublishReport> {
+    return this.publishTemplate(buildReactionTemplate(event, content, this.relayHint(event.id)))
+  }
+
+  async repost(event: Event): Promise<PublishReport> {
+    return this.publishTemplate(buildRepostTemplate(event, this.relayHint(event.id)))
+  }
+
+  /**
+   * Fetch a root note and every reply that references it, assembled
+   * into a tree. Clients tag the root on every reply (NIP-10), so one
+   * `#e` query finds the whole thread.
+   */
+  async getThread(rootId: string): Promise<ThreadNode | null> {
+    const [root, replies] = await Promise.all([
+      this.getEvent(rootId),
+      this.query({ kinds: [NOTE_KIND], '#e': [rootId] })
+    ])
+
+    if (!root) return null
+    return buildThreadTree(root, replies)
+  }
+
+  // Profile (kind 0)
+  async getProfile(pubkey?: string): Promise<Profile | null> {
+    const [event] = await this.query({
+      kinds: [PROFILE_KIND],
+      authors: [pubkey ?? await this.getPublicKey()],
+      limit: 1
+    })
+    return event ? parseProfile(event) : null
   }
 
-  async publishNote(content: string): Promise<Event> {
-    return this.publish(1, content)
+  /**
+   * Merges into the current profile so fields set by other clients
+   * survive. Like follow(), refuses to start from nothing unless
+   * `allowCreate` is set: a profile the relays failed to return would
+   * otherwise be replaced by just these fields.
+   */
+  async setProfile(metadata: ProfileMetadata, options: { allowCreate?: boolean } = {}): Promise<PublishReport> {
+    const current = await this.getProfile()
+    if (!current && !options.allowCreate) {
+      throw new Error('Profile not found; pass allowCreate to start a new one')
+    }
+    return this.publishTemplate(buildProfileTemplate({ ...current?.metadata, ...metadata }))
+  }
+
+  // Sharing (NIP-19)
+  async getNprofile(pubkey?: string): Promise<string> {
+    pubkey = pubkey ?? await this.getPublicKey()
+
+    // Where they write is where others will find their profile
+    let hints = (await this.getRelayList(pubkey))?.write ?? []
+    if (hints.length === 0) {
+      const profile = await this.getProfile(pubkey)
+      hints = profile ? this.relayHints(profile.event.id) : []
+    }
+
+    return encodeNprofile(pubkey, hints)
+  }
+
+  async getNevent(event: Event): Promise<string> {
+    return encodeNevent(event, await this.shareHints(event))
+  }
+
+  async getNaddr(event: Event): Promise<string> {
+    return encodeNaddr(event, await this.shareHints(event))
+  }
+
+  // Relays the event was seen on; for events we only published
+  // (never received back) the author's write relays
+  private async shareHints(event: Event): Promise<string[]> {
+    const seen = this.relayHints(event.id)
+    if (seen.length > 0) return seen
+    const write = (await this.getRelayList(event.pubkey))?.write ?? []
+    return write.length > 0 ? write : this.relays
+  }
+
+  /**
+   * Fetch whatever an npub, nprofile, note, nevent, naddr or `nostr:`
+   * URI points at. Embedded relay hints are asked first; the usual
+   * relays (outbox-routed when the author is known) are the fallback.
+   */
+  async resolve(entity: string): Promise<ResolvedEntity> {
+    const { type, pointer } = parseEntity(entity)
+
+    switch (type) {
+      case 'profile': {
+        const filter = { kinds: [PROFILE_KIND], authors: [pointer.pubkey], limit: 1 }
+        const [event] = await this.fetchWithHints(pointer.relays ?? [], filter)
+        return { type, pubkey: pointer.pubkey, profile: event ? parseProfile(event) : null }
+      }
+      case 'event': {
+        const cached = await this.store.get(pointer.id)
+        if (cached) return { type, id: pointer.id, event: cached }
+
+        const filter: Filter = { ids: [pointer.id] }
+        if (pointer.author) filter.authors = [pointer.author]
+        const [event] = await this.fetchWithHints(pointer.relays ?? [], filter)
+        return { type, id: pointer.id, event: event ?? null }
+      }
+      case 'address': {
+        const [event] = await this.fetchWithHints(pointer.relays ?? [], addressFilter(pointer))
+        return { type, address: formatAddress(pointer), event: event ?? null }
+      }
+    }
+  }
+
+  private async fetchWithHints(hints: string[], filter: Filter): Promise<Event[]> {
+    if (hints.length > 0) {
+      const found = await this.pool.querySync(hints, filter, { maxWait: 3000 })
+      if (found.length > 0) {
+        await Promise.all(found.map(event => this.store.save(event)))
+        return this.store.query(filter)
+      }
+    }
+    return this.query(filter)
+  }
+
+  // Contacts (kind 3)
+  private async getContactListEvent(pubkey: string): Promise<Event | null> {
+    const [event] = await this.query({
+      kinds: [CONTACT_LIST_KIND],
+      authors: [pubkey],
+      limit: 1
+    })
+    return event ?? null
+  }
+
+  async getFollows(pubkey?: string): Promise<Contact[]> {
+    const event = await this.getContactListEvent(pubkey ?? await this.getPublicKey())
+    return event ? parseContacts(event) : []
+  }
+
+  /**
+   * Add or update a contact. Refuses to create a list from scratch
+   * unless `allowCreate` is set: if relays just failed to return our
+   * list, publishing a new one would wipe every existing follow.
+   */
+  async follow(
+    pubkey: string,
+    details: Omit<Contact, 'pubkey'> = {},
+    options: { allowCreate?: boolean } = {}
+  ): Promise<PublishReport> {
+    return this.updateContacts(contacts => [
+      ...contacts.filter(c => c.pubkey !== pubkey),
+      { pubkey, ...details }
+    ], options.allowCreate ?? false)
+  }
+
+  async unfollow(pubkey: string): Promise<PublishReport> {
+    return this.updateContacts(contacts => contacts.filter(c => c.pubkey !== pubkey), false)
+  }
+
+  private async updateContacts(
+    update: (contacts: Contact[]) => Contact[],
+    allowCreate: boolean
+  ): Promise<PublishReport> {
+    const run = this.contactsLock.then(async () => {
+      const previous = await this.getContactListEvent(await this.getPublicKey())
+      if (!previous && !allowCreate) {
+        throw new Error('Contact list not found; pass allowCreate to start a new one')
+      }
+
+      const contacts = update(previous ? parseContacts(previous) : [])
+      return this.publishTemplate(buildContactListTemplate(contacts, previous))
+    })
+
+    this.contactsLock = run.catch(() => {})
+    return run
+  }
+
+  // NIP-05
+  async lookupNip05(identifier: string): Promise<Nip05Result | null> {
+    return lookupNip05(identifier, { fetch: this.fetchImpl })
+  }
+
+  /**
+   * Check the `nip05` field of a profile against its domain.
+   * Returns the verified identifier, or null.
+   */
+  async verifyProfileNip05(pubkey: string): Promise<string | null> {
+    const identifier = (await this.getProfile(pubkey))?.metadata.nip05
+    if (!identifier) return null
+
+    const valid = await verifyNip05(identifier, pubkey, { fetch: this.fetchImpl })
+    return valid ? identifier : null
+  }
+
+  // Direct messages (NIP-17)
+  async publishDMRelays(relays: string[]): Promise<PublishReport> {
+    return this.publishTemplate(buildDmRelayListTemplate(relays))
+  }
+
+  async getDMRelays(pubkey?: string): Promise<string[]> {
+    const [event] = await this.query({
+      kinds: [DM_RELAYS_KIND],
+      authors: [pubkey ?? await this.getPublicKey()],
+      limit: 1
+    })
+    return event ? parseDmRelays(event) : []
+  }
+
+  /**
+   * Send one message to one or more recipients. Each gets their own
+   * gift wrap on their kind 10050 relays, and we keep a copy on ours.
+   * Throws before sending anything if a recipient has no DM relays,
+   * since NIP-17 treats that as not accepting DMs.
+   */
+  async sendDM(
+    recipients: string | string[],
+    text: string,
+    options: { subject?: string; replyTo?: string } = {}
+  ): Promise<DirectMessageReport> {
+    const me = await this.getPublicKey()
+    const to = [...new Set(typeof recipients === 'string' ? [recipients] : recipients)]
+
+    const relayLists = await Promise.all(to.map(pk => this.getDMRelays(pk)))
+    const missing = to.filter((_, i) => relayLists[i].length === 0)
+    if (missing.length > 0) {
+      throw new Error(`No DM relays (kind ${DM_RELAYS_KIND}) published by: ${missing.join(', ')}`)
+    }
+
+    const targets = new Map(to.map((pk, i) => [pk, relayLists[i]]))
+    if (!targets.has(me)) {
+      const own = await this.getDMRelays(me)
+      targets.set(me, own.length > 0 ? own : this.relays)
+    }
+
+    const rumor = createRumor(me, to, text, options)
+    const reports: Record<string, PublishReport> = {}
+
+    await Promise.all([...targets].map(async ([pk, relays]) => {
+      const wrap = await wrapForRecipient(rumor, this.signer, pk)
+      try {
+        reports[pk] = await publishToRelays(this.pool, relays, wrap, this.publishPolicy)
+      } catch (err) {
+        // Report per recipient instead of failing the whole send
+        if (!(err instanceof PublishError)) throw err
+        reports[pk] = err.report
+      }
+    }))
+
+    return { message: toDirectMessage(rumor), reports }
+  }
+
+  /**
+   * Deliver every DM addressed to us, sent or received, once each.
+   * Wraps are backdated up to two days, so `since` (seconds) is
+   * widened for the relay and applied to the real message time.
+   * `onError` hears when our pubkey couldn't be had from the signer,
+   * so nothing was subscribed.
+   */
+  subscribeToDMs(
+    onMessage: (message: DirectMessage) => void,
+    options: { since?: number; onError?: (error: Error) => void } = {}
+  ): SubCloser {
+    const onError = options.onError ?? ((error: Error) => console.error('Failed to subscribe to DMs:', error))
+    const seen = new Set<string>()
+    let sub: SubCloser | null = null
+    let closed = false
+
+    const onWrap = async (wrap: Event) => {
+      try {
+        const message = toDirectMessage(await unwrapGiftWrap(wrap, this.signer))
+        if (seen.has(message.id)) return
+        seen.add(message.id)
+        if (seen.size > MAX_SEEN_DMS) seen.delete(seen.values().next().value!)
+        if (options.since !== undefined && message.createdAt < options.since) return
+        onMessage(message)
+      } catch {
+        // Not decryptable by us, or forged: nothing to show
+      }
+    }
+
+    this.dmInbox().then(({ me, relays }) => {
+      if (closed) return
+      sub = this.pool.subscribeMany(relays, [{
+        kinds: [GIFT_WRAP_KIND],
+        '#p': [me],
+        ...(options.since !== undefined && { since: options.since - TIMESTAMP_JITTER_SECONDS })
+      }], { onevent: onWrap })
+    }).catch(err => {
+      if (!closed) onError(err instanceof Error ? err : new Error(String(err)))
+    })
+
+    return {
+      close: () => {
+        closed = true
+        sub?.close()
+      }
+    }
+  }
+
+  // Fetch DM history and group it into conversations, most recent first
+  async getConversations(): Promise<Conversation[]> {
+    const { me, relays } = await this.dmInbox()
+    const wraps = await this.pool.querySync(relays, { kinds: [GIFT_WRAP_KIND], '#p': [me] })
+
+    const messages = await Promise.all(wraps.map(async wrap => {
+      try {
+        return toDirectMessage(await unwrapGiftWrap(wrap, this.signer))
+      } catch {
+        return null
+      }
+    }))
+    return groupConversations(messages.filter((m): m is DirectMessage => m !== null))
+  }
+
+  private async dmInbox(): Promise<{ me: string; relays: string[] }> {
+    const me = await this.getPublicKey()
+    // Unreadable DM relay list: our own relays are still worth asking
+    const own = await this.getDMRelays(me).catch(() => [])
+    return { me, relays: own.length > 0 ? own : this.relays }
+  }
+
+  // Relay list (NIP-65)
+  async publishRelayList(entries: RelayListEntry[]): Promise<PublishReport> {
+    const event = await this.signer.signEvent(buildRelayListTemplate(entries))
+    this.outbox?.remember(event)
+
+    // Index relays too, so others can find where we write
+    const relays = [...new Set([...entries.map(e => e.url), ...this.indexRelays])]
+    return publishToRelays(this.pool, relays, event, this.publishPolicy)
+  }
+
+  async getRelayList(pubkey: string): Promise<RelayList | null> {
+    return this.outbox ? this.outbox.getRelayList(pubkey) : null
   }
 
   // Querying
   async getEvent(id: string): Promise<Event | null> {
-    return this.pool.get(this.relays, { ids: [id] })
+    // Ids are content hashes, so a cached event is never stale
+    const cached = await this.store.get(id)
+    if (cached) return cached
+
+    const event = await this.pool.get(this.relays, { ids: [id] })
+    if (event) await this.store.save(event)
+    return event
+  }
+
+  /**
+   * Query relays and merge the results into the local store.
+   * Pass `onCached` to receive stored matches before the network answers.
+   */
+  async query(filter: Filter, onCached?: (events: Event[]) => void): Promise<Event[]> {
+    if (onCached) {
+      onCached(await this.store.query(filter))
+    }
+
+    const fresh = await this.fetchFromRelays(filter)
+    await Promise.all(fresh.map(event => this.store.save(event)))
+
+    // The store has applied replaceable/addressable rules to cached + fresh
+    return this.store.query(filter)
   }
 
-  async query(filter: Filter): Promise<Event[]> {
-    return this.pool.querySync(this.relays, filter)
+  /**
+   * Stream every matching event, paging backwards past relay limits.
+   * Stops at `filter.since`, `options.max`, or when relays run dry.
+   */
+  async *queryAll(filter: Filter, options: PaginateOptions = {}): AsyncGenerator<Event> {
+    const requests = this.outbox && filter.authors
+      ? Object.fromEntries(
+          Object.entries(await this.outbox.routeFilter(filter)).map(([relay, filters]) => [relay, filters[0]])
+        )
+      : Object.fromEntries(this.relays.map(relay => [relay, filter]))
+
+    const fetchPage = async (relay: string, pageFilter: Filter) => {
+      const events = await this.pool.querySync([relay], pageFilter)
+      await Promise.all(events.map(event => this.store.save(event)))
+      return events
+    }
+
+    yield* paginate(requests, fetchPage, options)
+  }
+
+  private async fetchFromRelays(filter: Filter): Promise<Event[]> {
+    if (!this.outbox || !filter.authors) {
+      return this.pool.querySync(this.relays, filter)
+    }
+
+    const requests = await this.outbox.routeFilter(filter)
+    const batches = await Promise.all(
+      Object.entries(requests).map(([relay, filters]) => this.pool.querySync([relay], filters[0]))
+    )
+
+    // Merge across relays, newest first
+    const byId = new Map<string, Event>()
+    batches.flat().forEach(event => byId.set(event.id, event))
+    const events = [...byId.values()].sort((a, b) => b.created_at - a.created_at)
+
+    return filter.limit ? events.slice(0, filter.limit) : events
   }
 
   async getMyEvents(kind: number, limit = 20): Promise<Event[]> {
     return this.query({
       kinds: [kind],
-      authors: [this.keyPair.pk],
+      authors: [await this.getPublicKey()],
       limit
     })
   }
 
   // Subscriptions
+  /**
+   * Subscriptions opened together share REQs (see SubscriptionManager).
+   * With `closeOnEose` the subscription ends after stored events.
+   */
   subscribe(
     filter: Filter,
-    onEvent: (event: Event) => void,
-    onEose?: () => void
-  ) {
-    return this.pool.subscribeMany(
-      this.relays,
-      [filter],
-      {
-        onevent: onEvent,
-        oneose: onEose
+    handleEvent: (event: Event) => void,
+    onEose?: () => void,
+    options: { closeOnEose?: boolean } = {}
+  ): SubCloser {
+    const params = {
+      onevent: (event: Event) => {
+        // A cache that can't be written still lets the event through
+        this.store.save(event).catch(err => console.warn('Failed to cache event:', err))
+        handleEvent(event)
+      },
+      oneose: onEose,
+      closeOnEose: options.closeOnEose
+    }
+
+    if (!this.outbox || !filter.authors) {
+      return this.subscriptions.subscribeMany(this.relays, filter, params)
+    }
+
+    // Relay lists resolve asynchronously, so open once routing is known
+    let sub: SubCloser | null = null
+    let closed = false
+    const ownRelays = () => Object.fromEntries(this.relays.map(relay => [relay, filter]))
+
+    this.outbox.routeFilter(filter)
+      .then(
+        requests => Object.fromEntries(Object.entries(requests).map(([relay, filters]) => [relay, filters[0]])),
+        // Relay lists couldn't be loaded: read from our own relays instead
+        ownRelays
+      )
+      .then(requests => {
+        if (closed) return
+        sub = this.subscriptions.subscribe(requests, params)
+      })
+      .catch(() => {
+        // A routed relay the pool refused: fall back the same way
+        if (closed || sub) return
+        sub = this.subscriptions.subscribe(ownRelays(), params)
+      })
+
+    return {
+      close: () => {
+        closed = true
+        sub?.close()
       }
-    )
+    }
   }
 
   subscribeToNotes(authors: string[], onEvent: (event: Event) => void) {
@@ -150,7 +822,9 @@ class NostrClient {
 
   // Cleanup
   close() {
-    this.pool.close(this.relays)
+    // Every relay, including ones outbox routing opened, and the ping timer
+    this.subscriptions.close()
+    this.pool.destroy()
   }
 }
 
@@ -162,26 +836,79 @@ async function main() {
   // Create client
   const client = new NostrClient()
 
-  console.log('Public key:', client.npub)
+  console.log('Public key:', await client.getNpub())
+
+  client.relayManager.on('disconnected', url => console.warn('Relay dropped:', url))
 
   // Publish a note
-  const event = await client.publishNote('Hello from my Nostr client!')
+  const { event, results } = await client.publishNote('Hello from my Nostr client!')
   console.log('Published:', event.id)
+  results.forEach(r => console.log(`  ${r.relay}: ${r.status}`, r.reason ?? ''))
+
+  // Share it with relay hints, and resolve any entity or nostr: URI
+  const nevent = await client.getNevent(event)
+  const resolved = await client.resolve(`nostr:${nevent}`)
+  console.log('Resolved:', resolved.type)
 
   // Subscribe to your own notes
-  const sub = client.subscribeToNotes([client.publicKey], (event) => {
+  const sub = client.subscribeToNotes([await client.getPublicKey()], (event) => {
     console.log('Received:', event.content)
   })
 
-  // Query recent notes
+  // Query recent notes (cached results arrive first)
+  await client.query({ kinds: [1], limit: 10 }, (cached) => {
+    console.log('Cached notes:', cached.length)
+  })
   const notes = await client.getMyEvents(1, 10)
   console.log('My notes:', notes.length)
 
+  // Walk full history in pages
+  for await (const note of client.queryAll({ kinds: [1], authors: [await client.getPublicKey()] }, { pageSize: 100 })) {
+    console.log('History:', note.id)
+  }
+
   // Cleanup
   // sub.close()
   // client.close()
 }
 
 // Export for use as module
-export { NostrClient, generateKeyPair, importKeyPair }
-export type { KeyPair, NostrClientOptions }
+export {
+  NostrClient,
+  generateKeyPair,
+  importKeyPair,
+  exportEncrypted,
+  importEncrypted,
+  NcryptsecError
+}
+export type {
+  KeyPair,
+  KeySecurity,
+  NcryptsecErrorCode,
+  NostrClientOptions,
+  Signer,
+  PublishPolicy,
+  PublishOptions,
+  PowOptions,
+  PublishReport,
+  RelayList,
+  RelayListEntry,
+  EventStore,
+  Profile,
+  ProfileMetadata,
+  Contact,
+  Nip05Result,
+  ThreadNode,
+  PaginateOptions,
+  ValidationPolicy,
+  InvalidEventReport,
+  RelayManagerOptions,
+  RelayStatus,
+  SubscriptionManagerOptions,
+  AuthPolicy,
+  RelayAuthStatus,
+  ResolvedEntity,
+  DirectMessage,
+  DirectMessageReport,
+  Conversation
+}
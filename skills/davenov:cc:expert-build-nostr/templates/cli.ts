@@ -0,0 +1,503 @@
+/**
+ * Command-Line Tool Template
+ *
+ * A `nostr` command built on NostrClient and PubSubHandler: key
+ * generation, publishing, queries and live subscriptions as JSON
+ * lines, NIP-19 encoding, and pub/sub messaging. Identities live in
+ * an encrypted Keystore; relays and the default identity in a config
+ * file. Publish exit codes say how many relays accepted the event.
+ *
+ * Run with: npx tsx cli.ts <command> [options]
+ */
+
+import { parseArgs } from 'node:util'
+import { readFile, writeFile, mkdir } from 'node:fs/promises'
+import { homedir } from 'node:os'
+import { dirname, join } from 'node:path'
+import { createInterface } from 'node:readline/promises'
+import * as nip19 from 'nostr-tools/nip19'
+import type { Event, Filter } from 'nostr-tools'
+import { NostrClient, generateKeyPair } from './basic-client'
+import type { KeyPair, PublishReport } from './basic-client'
+import { PubSubHandler } from './pubsub-handler'
+import { PublishError } from './relay-publisher'
+import { LocalKeySigner } from './signer'
+import { Keystore } from './keystore'
+import { parseEntity, MAX_RELAY_HINTS } from './entities'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const CONFIG_DIR = join(homedir(), '.config', 'nostr')
+const DEFAULT_CONFIG_PATH = join(CONFIG_DIR, 'config.json')
+
+// Exit codes; scripts can tell a partial publish from a failed one
+const EXIT_OK = 0
+const EXIT_ERROR = 1
+// Published, but at least one relay did not accept the event
+const EXIT_PARTIAL = 2
+// Fewer relays accepted than the publish policy requires
+const EXIT_REJECTED = 3
+
+const USAGE = `Usage: nostr <command> [options]
+
+Commands:
+  keygen [--name <name>]                 Generate and store a new identity
+  publish [content] --kind <n> [--tag name=value,...] [--pow <bits>]
+  query [filter flags | --filter <json>] Print matching events as JSON lines
+  sub [filter flags | --filter <json>]   Stream matching events as JSON lines
+  decode <entity>                        Decode npub/nprofile/note/nevent/naddr
+  encode <npub|nprofile|note|nevent|naddr> [value] [--relay <url>] ...
+  pubsub send <pubkey> <json> | pubsub send --channel <name> <json>
+  pubsub request <pubkey> <method> [params-json] [--timeout <ms>]
+  pubsub listen [--channel <name>]
+
+Filter flags: --kind --author --id --tag name=value --since --until --limit
+Global: --config <path> --identity <name> --relay <url> (repeatable)
+
+Content "-" (or no content with piped input) is read from stdin.
+Passwords come from NOSTR_PASSWORD, or are prompted for.
+Publish exit codes: 0 all relays accepted, 2 some did, 3 too few did, 1 error.`
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface CliConfig {
+  relays?: string[]
+  // Keystore entry used when --identity is not given
+  identity?: string
+  keystore?: string
+}
+
+interface CliContext {
+  config: CliConfig
+  configPath: string
+  relays?: string[]
+  identity?: string
+}
+
+class UsageError extends Error {}
+
+// ============================================================================
+// Config File
+// ============================================================================
+
+async function loadConfig(path: string): Promise<CliConfig> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as CliConfig
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return {}
+    throw new Error(`Could not read config ${path}: ${err instanceof Error ? err.message : err}`)
+  }
+}
+
+async function saveConfig(path: string, config: CliConfig): Promise<void> {
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, JSON.stringify(config, null, 2) + '\n', { mode: 0o600 })
+}
+
+function getKeystorePath(ctx: CliContext): string {
+  return ctx.config.keystore ?? join(dirname(ctx.configPath), 'identities.json')
+}
+
+// Prompted input is echoed; set NOSTR_PASSWORD in scripts
+async function getPassword(prompt: string): Promise<string> {
+  if (process.env.NOSTR_PASSWORD) return process.env.NOSTR_PASSWORD
+  if (!process.stdin.isTTY) throw new Error('No terminal to prompt on; set NOSTR_PASSWORD')
+
+  const rl = createInterface({ input: process.stdin, output: process.stderr })
+  try {
+    return await rl.question(prompt)
+  } finally {
+    rl.close()
+  }
+}
+
+async function loadIdentity(ctx: CliContext): Promise<KeyPair> {
+  const name = ctx.identity ?? ctx.config.identity
+  if (!name) throw new UsageError('No identity; run `nostr keygen` or pass --identity')
+
+  const keystore = await Keystore.open(getKeystorePath(ctx))
+  return keystore.load(name, await getPassword(`Password for ${name}: `))
+}
+
+// ============================================================================
+// Argument Parsing
+// ============================================================================
+
+const FILTER_OPTIONS = {
+  filter: { type: 'string' },
+  kind: { type: 'string', multiple: true },
+  author: { type: 'string', multiple: true },
+  id: { type: 'string', multiple: true },
+  tag: { type: 'string', multiple: true },
+  since: { type: 'string' },
+  until: { type: 'string' },
+  limit: { type: 'string' }
+} as const
+
+function parseInteger(flag: string, value: string): number {
+  const n = Number(value)
+  if (!Number.isInteger(n)) throw new UsageError(`--${flag} must be an integer, got "${value}"`)
+  return n
+}
+
+// Accepts hex, npub or nprofile
+function toPubkey(value: string): string {
+  if (/^[0-9a-f]{64}$/.test(value)) return value
+  const entity = parseEntity(value)
+  if (entity.type !== 'profile') throw new UsageError(`Expected a pubkey, got ${entity.type}`)
+  return entity.pointer.pubkey
+}
+
+// `name=value` or `name=v1,v2,...` becomes ['name', 'value', ...]
+function parseTag(value: string): string[] {
+  const eq = value.indexOf('=')
+  if (eq < 1) throw new UsageError(`--tag must look like name=value, got "${value}"`)
+  return [value.slice(0, eq), ...value.slice(eq + 1).split(',')]
+}
+
+// Flags are applied over --filter, so a saved filter can be narrowed
+function buildFilter(values: Record<string, string | string[] | boolean | undefined>): Filter {
+  let filter: Filter = {}
+  if (typeof values.filter === 'string') {
+    try {
+      filter = JSON.parse(values.filter) as Filter
+    } catch {
+      throw new UsageError('--filter must be a JSON object')
+    }
+  }
+
+  const list = (key: string) => (values[key] as string[] | undefined) ?? []
+
+  if (list('kind').length) filter.kinds = list('kind').map(k => parseInteger('kind', k))
+  if (list('author').length) filter.authors = list('author').map(toPubkey)
+  if (list('id').length) filter.ids = list('id')
+  for (const [name, ...tagValues] of list('tag').map(parseTag)) {
+    const key = `#${name}` as `#${string}`
+    filter[key] = [...(filter[key] ?? []), ...tagValues]
+  }
+  if (typeof values.since === 'string') filter.since = parseInteger('since', values.since)
+  if (typeof values.until === 'string') filter.until = parseInteger('until', values.until)
+  if (typeof values.limit === 'string') filter.limit = parseInteger('limit', values.limit)
+
+  return filter
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks).toString('utf8').replace(/\n$/, '')
+}
+
+function printJson(value: unknown): void {
+  process.stdout.write(JSON.stringify(value) + '\n')
+}
+
+/**
+ * Print the per-relay outcome and map it to an exit code. A publish
+ * below the required acceptances throws PublishError, which still
+ * carries the report.
+ */
+async function reportPublish(publishing: Promise<PublishReport>): Promise<number> {
+  let report: PublishReport
+  try {
+    report = await publishing
+  } catch (err) {
+    if (!(err instanceof PublishError)) throw err
+    report = err.report
+  }
+
+  printJson({
+    id: report.event.id,
+    ok: report.ok,
+    results: report.results.map(({ relay, status, reason }) => ({ relay, status, reason }))
+  })
+
+  if (!report.ok) return EXIT_REJECTED
+  return report.complete ? EXIT_OK : EXIT_PARTIAL
+}
+
+// Resolves on Ctrl-C, for commands that stream until stopped
+function untilInterrupted(): Promise<void> {
+  return new Promise(resolve => {
+    process.once('SIGINT', () => resolve())
+    process.once('SIGTERM', () => resolve())
+  })
+}
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+async function keygen(ctx: CliContext, args: string[]): Promise<number> {
+  const { values } = parseArgs({ args, options: { name: { type: 'string' } } })
+  const name = values.name ?? 'default'
+
+  const path = getKeystorePath(ctx)
+  await mkdir(dirname(path), { recursive: true })
+  const keystore = await Keystore.open(path)
+  const keyPair = generateKeyPair()
+  // 0x01: generated here and never shown in clear
+  await keystore.save(name, keyPair, await getPassword(`New password for ${name}: `), { keySecurity: 0x01 })
+
+  // The first identity becomes the default
+  if (!ctx.config.identity) {
+    await saveConfig(ctx.configPath, { ...ctx.config, identity: name })
+  }
+
+  printJson({ name, pubkey: keyPair.pk, npub: keyPair.npub })
+  return EXIT_OK
+}
+
+async function publish(ctx: CliContext, args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      kind: { type: 'string', default: '1' },
+      tag: { type: 'string', multiple: true },
+      pow: { type: 'string' }
+    }
+  })
+
+  let content = positionals[0]
+  if (content === '-' || (content === undefined && !process.stdin.isTTY)) content = await readStdin()
+  if (content === undefined) throw new UsageError('publish needs content, "-" or piped input')
+
+  const client = new NostrClient({ relays: ctx.relays, keyPair: await loadIdentity(ctx) })
+  try {
+    return await reportPublish(client.publish(
+      parseInteger('kind', values.kind),
+      content,
+      (values.tag ?? []).map(parseTag),
+      values.pow ? { pow: { difficulty: parseInteger('pow', values.pow) } } : {}
+    ))
+  } finally {
+    client.close()
+  }
+}
+
+async function query(ctx: CliContext, args: string[]): Promise<number> {
+  const { values } = parseArgs({ args, options: FILTER_OPTIONS })
+  const client = new NostrClient({ relays: ctx.relays })
+  try {
+    const events = await client.query(buildFilter(values))
+    events.forEach(printJson)
+    return EXIT_OK
+  } finally {
+    client.close()
+  }
+}
+
+async function sub(ctx: CliContext, args: string[]): Promise<number> {
+  const { values } = parseArgs({ args, options: FILTER_OPTIONS })
+  const client = new NostrClient({ relays: ctx.relays })
+  const subscription = client.subscribe(buildFilter(values), (event: Event) => printJson(event))
+
+  await untilInterrupted()
+  subscription.close()
+  client.close()
+  return EXIT_OK
+}
+
+async function decode(_ctx: CliContext, args: string[]): Promise<number> {
+  const { positionals } = parseArgs({ args, allowPositionals: true })
+  if (!positionals[0]) throw new UsageError('decode needs an entity')
+
+  printJson(parseEntity(positionals[0]))
+  return EXIT_OK
+}
+
+async function encode(_ctx: CliContext, args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      relay: { type: 'string', multiple: true },
+      author: { type: 'string' },
+      kind: { type: 'string' },
+      identifier: { type: 'string', default: '' }
+    }
+  })
+  const [type, value] = positionals
+  const relays = (values.relay ?? []).slice(0, MAX_RELAY_HINTS)
+  const author = values.author ? toPubkey(values.author) : undefined
+  const kind = values.kind ? parseInteger('kind', values.kind) : undefined
+
+  const need = (what: string) => {
+    if (!value) throw new UsageError(`encode ${type} needs ${what}`)
+    return value
+  }
+
+  switch (type) {
+    case 'npub':
+      printJson(nip19.npubEncode(toPubkey(need('a pubkey'))))
+      break
+    case 'nprofile':
+      printJson(nip19.nprofileEncode({ pubkey: toPubkey(need('a pubkey')), relays }))
+      break
+    case 'note':
+      printJson(nip19.noteEncode(need('an event id')))
+      break
+    case 'nevent':
+      printJson(nip19.neventEncode({ id: need('an event id'), relays, author, kind }))
+      break
+    case 'naddr':
+      if (kind === undefined || !author) throw new UsageError('encode naddr needs --kind and --author')
+      printJson(nip19.naddrEncode({ kind, pubkey: author, identifier: values.identifier, relays }))
+      break
+    default:
+      throw new UsageError(`Cannot encode "${type ?? ''}"; use npub, nprofile, note, nevent or naddr`)
+  }
+  return EXIT_OK
+}
+
+async function pubsub(ctx: CliContext, args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      channel: { type: 'string' },
+      namespace: { type: 'string' },
+      timeout: { type: 'string', default: '10000' }
+    }
+  })
+  const [action, ...rest] = positionals
+
+  const parseJson = (text: string | undefined, what: string): unknown => {
+    if (text === undefined) throw new UsageError(`pubsub ${action} needs ${what}`)
+    try {
+      return JSON.parse(text)
+    } catch {
+      throw new UsageError(`${what} must be JSON`)
+    }
+  }
+
+  const handler = new PubSubHandler({
+    relays: ctx.relays,
+    signer: new LocalKeySigner((await loadIdentity(ctx)).sk),
+    namespace: values.namespace
+  })
+
+  try {
+    switch (action) {
+      case 'send': {
+        return await reportPublish(values.channel
+          ? handler.publish(parseJson(rest[0], 'a JSON payload'), values.channel)
+          : handler.sendTo(toPubkey(rest[0] ?? ''), parseJson(rest[1], 'a JSON payload')))
+      }
+      case 'request': {
+        const [target, method, params] = rest
+        if (!target || !method) throw new UsageError('pubsub request needs a pubkey and a method')
+        const result = await handler.request(
+          toPubkey(target),
+          method,
+          params === undefined ? {} : parseJson(params, 'params'),
+          parseInteger('timeout', values.timeout)
+        )
+        printJson(result)
+        return EXIT_OK
+      }
+      case 'listen': {
+        const onMessage = (data: unknown, from: string) => printJson({ from, data })
+        const unsubscribe = values.channel
+          ? handler.subscribe(values.channel, onMessage)
+          : handler.subscribeToMe(onMessage)
+        await untilInterrupted()
+        unsubscribe()
+        return EXIT_OK
+      }
+      default:
+        throw new UsageError('pubsub needs send, request or listen')
+    }
+  } finally {
+    handler.close()
+  }
+}
+
+const COMMANDS: Record<string, (ctx: CliContext, args: string[]) => Promise<number>> = {
+  keygen,
+  publish,
+  query,
+  sub,
+  decode,
+  encode,
+  pubsub
+}
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+/**
+ * Run one command and resolve to its exit code. Global flags may
+ * appear anywhere; everything else is left to the command.
+ */
+async function run(argv: string[]): Promise<number> {
+  const { values, tokens } = parseArgs({
+    args: argv,
+    strict: false,
+    tokens: true,
+    options: {
+      config: { type: 'string' },
+      identity: { type: 'string' },
+      relay: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' }
+    }
+  })
+
+  // Hand the command only what the global flags didn't consume
+  const globals = new Set(['config', 'identity', 'relay', 'help'])
+  const rest: string[] = []
+  for (const token of tokens) {
+    if (token.kind === 'option' && globals.has(token.name)) continue
+    if (token.kind === 'option-terminator') rest.push('--')
+    else rest.push(token.kind === 'positional' ? token.value : token.rawName)
+    if (token.kind === 'option' && token.value !== undefined) {
+      if (token.inlineValue) rest[rest.length - 1] += `=${token.value}`
+      else rest.push(token.value)
+    }
+  }
+
+  const [command, ...args] = rest
+  if (values.help || !command) {
+    process.stdout.write(USAGE + '\n')
+    return command || values.help ? EXIT_OK : EXIT_ERROR
+  }
+
+  const configPath = (values.config as string | undefined) ?? process.env.NOSTR_CONFIG ?? DEFAULT_CONFIG_PATH
+  const config = await loadConfig(configPath)
+  const relays = (values.relay as string[] | undefined) ?? config.relays
+  const ctx: CliContext = { config, configPath, relays, identity: values.identity as string | undefined }
+
+  // Own keys only: `nostr constructor` must not find Object.prototype's
+  const handler = Object.hasOwn(COMMANDS, command) ? COMMANDS[command] : undefined
+  if (!handler) {
+    process.stderr.write(`nostr: unknown command "${command}"\n\n${USAGE}\n`)
+    return EXIT_ERROR
+  }
+
+  try {
+    return await handler(ctx, args)
+  } catch (err) {
+    process.stderr.write(`nostr: ${err instanceof Error ? err.message : err}\n`)
+    if (err instanceof UsageError) process.stderr.write(`Run "nostr --help" for usage.\n`)
+    return EXIT_ERROR
+  }
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+// As a script: npx tsx cli.ts publish "hello" --tag t=nostr
+if (/cli\.[cm]?[jt]s$/.test(process.argv[1] ?? '')) {
+  run(process.argv.slice(2)).then(code => process.exit(code))
+}
+
+// Export
+export { run, buildFilter, parseTag, EXIT_OK, EXIT_ERROR, EXIT_PARTIAL, EXIT_REJECTED }
+export type { CliConfig }
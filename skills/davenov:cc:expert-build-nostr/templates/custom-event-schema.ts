@@ -5,9 +5,20 @@
  * data storage on Nostr with addressable events.
  */
 
-import { generateSecretKey, getPublicKey, finalizeEvent } from 'nostr-tools/pure'
 import { SimplePool } from 'nostr-tools/pool'
 import type { Event, Filter } from 'nostr-tools'
+import type { SubCloser } from 'nostr-tools/pool'
+import { LocalKeySigner } from './signer'
+import type { Signer } from './signer'
+import { publishToRelays } from './relay-publisher'
+import type { PublishPolicy, PublishReport } from './relay-publisher'
+import { MemoryEventStore } from './event-store'
+import type { EventStore } from './event-store'
+import { EventValidator } from './event-validator'
+import type { InvalidEventReport, ValidationPolicy } from './event-validator'
+import { RelayAuthenticator } from './relay-auth'
+import type { AuthPolicy, RelayAuthStatus } from './relay-auth'
+import { encodeNaddr, parseEntity, addressFilter } from './entities'
 
 // ============================================================================
 // Schema Definition
@@ -128,14 +139,19 @@ interface CreateEventOptions {
   tags?: string[]
 }
 
+// Relays keep the newest version of an addressable event, and on a tie
+// the lowest id, so a second save within the same second must still
+// get a later created_at than the version it replaces
+function nextCreatedAt(nowMs: number, replacing?: number): number {
+  return Math.max(Math.floor(nowMs / 1000), replacing !== undefined ? replacing + 1 : 0)
+}
+
 class AppEventBuilder {
-  private sk: Uint8Array
-  private pk: string
+  private signer: Signer
   private namespace: string
 
-  constructor(sk: Uint8Array, namespace = 'myapp') {
-    this.sk = sk
-    this.pk = getPublicKey(sk)
+  constructor(signer: Signer, namespace = 'myapp') {
+    this.signer = signer
     this.namespace = namespace
   }
 
@@ -143,8 +159,10 @@ class AppEventBuilder {
     return `${this.namespace}:${type}:${id}`
   }
 
-  create(options: CreateEventOptions): Event {
+  // `replacing` is the created_at of a deletion marker being replaced
+  async create(options: CreateEventOptions, replacing?: number): Promise<Event> {
     const now = Date.now()
+    const pk = await this.signer.getPublicKey()
 
     const appData: CurrentAppData = {
       version: CURRENT_VERSION,
@@ -154,7 +172,7 @@ class AppEventBuilder {
         createdAt: now,
         updatedAt: now,
         tags: options.tags,
-        author: this.pk
+        author: pk
       }
     }
 
@@ -171,16 +189,18 @@ class AppEventBuilder {
       })
     }
 
-    return finalizeEvent({
+    return this.signer.signEvent({
       kind: APP_DATA_KIND,
-      created_at: Math.floor(now / 1000),
+      created_at: nextCreatedAt(now, replacing),
       tags: nostrTags,
       content: JSON.stringify(appData)
-    }, this.sk)
+    })
   }
 
-  update(options: CreateEventOptions, existingCreatedAt: number): Event {
+  // `replacing` is the created_at of the version being replaced
+  async update(options: CreateEventOptions, existingCreatedAt: number, replacing?: number): Promise<Event> {
     const now = Date.now()
+    const pk = await this.signer.getPublicKey()
 
     const appData: CurrentAppData = {
       version: CURRENT_VERSION,
@@ -190,7 +210,7 @@ class AppEventBuilder {
         createdAt: existingCreatedAt,
         updatedAt: now,
         tags: options.tags,
-        author: this.pk
+        author: pk
       }
     }
 
@@ -206,15 +226,16 @@ class AppEventBuilder {
       })
     }
 
-    return finalizeEvent({
+    return this.signer.signEvent({
       kind: APP_DATA_KIND,
-      created_at: Math.floor(now / 1000),
+      created_at: nextCreatedAt(now, replacing),
       tags: nostrTags,
       content: JSON.stringify(appData)
-    }, this.sk)
+    })
   }
 
-  markDeleted(type: string, id: string): Event {
+  async markDeleted(type: string, id: string, replacing?: number): Promise<Event> {
+    const pk = await this.signer.getPublicKey()
     const appData: CurrentAppData = {
       version: CURRENT_VERSION,
       type: type as CurrentAppData['type'],
@@ -222,19 +243,19 @@ class AppEventBuilder {
       metadata: {
         createdAt: Date.now(),
         updatedAt: Date.now(),
-        author: this.pk
+        author: pk
       }
     }
 
-    return finalizeEvent({
+    return this.signer.signEvent({
       kind: APP_DATA_KIND,
-      created_at: Math.floor(Date.now() / 1000),
+      created_at: nextCreatedAt(Date.now(), replacing),
       tags: [
         ['d', this.getDTag(type, id)],
         ['deleted', 'true']
       ],
       content: JSON.stringify(appData)
-    }, this.sk)
+    })
   }
 }
 
@@ -252,24 +273,59 @@ class AppDataRepository {
   private pool: SimplePool
   private relays: string[]
   private builder: AppEventBuilder
-  private pk: string
+  private auth: RelayAuthenticator
+  private pk: Promise<string>
   private namespace: string
+  private publishPolicy: Partial<PublishPolicy>
+  private store: EventStore
 
   constructor(
-    sk: Uint8Array,
-    options: { relays?: string[]; namespace?: string } = {}
+    signer: Signer,
+    options: {
+      relays?: string[]
+      namespace?: string
+      publishPolicy?: Partial<PublishPolicy>
+      // Share with NostrClient to reuse its cache
+      store?: EventStore
+      validation?: Partial<ValidationPolicy>
+      onInvalidEvent?: (report: InvalidEventReport) => void
+      // NIP-42: relays we answer AUTH challenges for. Default: none
+      auth?: AuthPolicy
+      onAuthStatusChange?: (status: RelayAuthStatus) => void
+    } = {}
   ) {
     this.pool = new SimplePool()
+    new EventValidator(options.validation, options.onInvalidEvent).install(this.pool)
     this.relays = options.relays ?? DEFAULT_RELAYS
     this.namespace = options.namespace ?? 'myapp'
-    this.builder = new AppEventBuilder(sk, this.namespace)
-    this.pk = getPublicKey(sk)
+    this.builder = new AppEventBuilder(signer, this.namespace)
+    this.pk = signer.getPublicKey()
+    // A failing signer surfaces where the key is awaited, not here
+    this.pk.catch(() => {})
+    this.auth = new RelayAuthenticator(signer, options.auth, { onStatusChange: options.onAuthStatusChange })
+    this.auth.install(this.pool)
+    this.publishPolicy = options.publishPolicy ?? {}
+    this.store = options.store ?? new MemoryEventStore()
   }
 
   private getDTag(type: string, id: string): string {
     return `${this.namespace}:${type}:${id}`
   }
 
+  getAuthStatus(): RelayAuthStatus[] {
+    return this.auth.getAllStatus()
+  }
+
+  /**
+   * Fetch from relays into the store, then answer from the store so
+   * addressable replacement (including deletion markers) is applied.
+   */
+  private async fetch(filter: Filter, relays = this.relays): Promise<Event[]> {
+    const events = await this.pool.querySync(relays, filter)
+    await Promise.all(events.map(e => this.store.save(e)))
+    return this.store.query(filter)
+  }
+
   private parseEvent<T>(event: Event): ParsedEvent<T> | null {
     try {
       const raw = JSON.parse(event.content)
@@ -302,33 +358,40 @@ class AppDataRepository {
   // CRUD Operations
   // -------------------------------------------------------------------------
 
-  async save<T>(type: CurrentAppData['type'], id: string, data: T, tags?: string[]): Promise<Event> {
-    // Check if exists (for createdAt preservation)
-    const existing = await this.get<T>(type, id)
+  async save<T>(type: CurrentAppData['type'], id: string, data: T, tags?: string[]): Promise<PublishReport> {
+    // Check if exists (for createdAt preservation). A deletion marker
+    // doesn't parse, but the new version must still outdate it
+    const latest = await this.getLatest(type, id)
+    const existing = latest ? this.parseEvent<T>(latest) : null
 
     const event = existing
-      ? this.builder.update({ type, id, data, tags }, existing.appData.metadata.createdAt)
-      : this.builder.create({ type, id, data, tags })
+      ? await this.builder.update({ type, id, data, tags }, existing.appData.metadata.createdAt, existing.event.created_at)
+      : await this.builder.create({ type, id, data, tags }, latest?.created_at)
 
-    await Promise.any(this.pool.publish(this.relays, event))
-    return event
+    await this.store.save(event)
+    return publishToRelays(this.pool, this.relays, event, this.publishPolicy)
   }
 
   async get<T>(type: string, id: string): Promise<ParsedEvent<T> | null> {
-    const event = await this.pool.get(this.relays, {
+    const event = await this.getLatest(type, id)
+    if (!event) return null
+    return this.parseEvent<T>(event)
+  }
+
+  // Latest version, deletion markers included
+  private async getLatest(type: string, id: string): Promise<Event | undefined> {
+    const [event] = await this.fetch({
       kinds: [APP_DATA_KIND],
-      authors: [this.pk],
+      authors: [await this.pk],
       '#d': [this.getDTag(type, id)]
     })
-
-    if (!event) return null
-    return this.parseEvent<T>(event)
+    return event
   }
 
   async list<T>(type: string, limit = 100): Promise<ParsedEvent<T>[]> {
-    const events = await this.pool.querySync(this.relays, {
+    const events = await this.fetch({
       kinds: [APP_DATA_KIND],
-      authors: [this.pk],
+      authors: [await this.pk],
       '#t': [`${this.namespace}:${type}`],
       limit
     })
@@ -339,9 +402,9 @@ class AppDataRepository {
   }
 
   async listByTag<T>(tag: string, limit = 100): Promise<ParsedEvent<T>[]> {
-    const events = await this.pool.querySync(this.relays, {
+    const events = await this.fetch({
       kinds: [APP_DATA_KIND],
-      authors: [this.pk],
+      authors: [await this.pk],
       '#t': [tag],
       limit
     })
@@ -351,9 +414,38 @@ class AppDataRepository {
       .filter((p): p is ParsedEvent<T> => p !== null)
   }
 
-  async delete(type: string, id: string): Promise<void> {
-    const event = this.builder.markDeleted(type, id)
-    await Promise.any(this.pool.publish(this.relays, event))
+  async delete(type: string, id: string): Promise<PublishReport> {
+    const current = await this.getLatest(type, id)
+    const event = await this.builder.markDeleted(type, id, current?.created_at)
+    await this.store.save(event)
+    return publishToRelays(this.pool, this.relays, event, this.publishPolicy)
+  }
+
+  // -------------------------------------------------------------------------
+  // Sharing (NIP-19)
+  // -------------------------------------------------------------------------
+
+  // Points at the latest version, so the link survives updates
+  async getNaddr(type: string, id: string): Promise<string | null> {
+    const item = await this.get(type, id)
+    return item ? encodeNaddr(item.event, this.relays) : null
+  }
+
+  /**
+   * Fetch the item an naddr or `nostr:` URI points at, possibly
+   * written by someone else. Relay hints in the address go first.
+   */
+  async resolve<T>(entity: string): Promise<ParsedEvent<T> | null> {
+    const { type, pointer } = parseEntity(entity)
+    if (type !== 'address' || pointer.kind !== APP_DATA_KIND) {
+      throw new Error(`Not an app data address: ${entity}`)
+    }
+
+    const filter = addressFilter(pointer)
+    let [event] = pointer.relays?.length ? await this.fetch(filter, pointer.relays) : []
+    if (!event) [event] = await this.fetch(filter)
+
+    return event ? this.parseEvent<T>(event) : null
   }
 
   // -------------------------------------------------------------------------
@@ -362,32 +454,54 @@ class AppDataRepository {
 
   subscribe<T>(
     type: string,
-    onChange: (item: ParsedEvent<T>, eventType: 'create' | 'update' | 'delete') => void
-  ) {
-    return this.pool.subscribeMany(
-      this.relays,
-      [{
-        kinds: [APP_DATA_KIND],
-        authors: [this.pk],
-        '#t': [`${this.namespace}:${type}`],
-        since: Math.floor(Date.now() / 1000)
-      }],
-      {
-        onevent: (event) => {
-          const deletedTag = event.tags.find(t => t[0] === 'deleted')
-          if (deletedTag) {
-            onChange({ event, appData: {} as CurrentAppData, data: {} as T }, 'delete')
-            return
-          }
-
-          const parsed = this.parseEvent<T>(event)
-          if (parsed) {
-            const isNew = parsed.appData.metadata.createdAt === parsed.appData.metadata.updatedAt
-            onChange(parsed, isNew ? 'create' : 'update')
+    onChange: (item: ParsedEvent<T>, eventType: 'create' | 'update' | 'delete') => void,
+    // The signer couldn't give our pubkey, so nothing was subscribed,
+    // or the store failed to save an event (it is still delivered)
+    onError: (error: Error) => void = (error) => console.error('Failed to subscribe:', error)
+  ): SubCloser {
+    const since = Math.floor(Date.now() / 1000)
+    let sub: SubCloser | null = null
+    let closed = false
+
+    // Our pubkey may come from a remote signer, so open once it resolves
+    this.pk.then(pk => {
+      if (closed) return
+      sub = this.pool.subscribeMany(
+        this.relays,
+        [{
+          kinds: [APP_DATA_KIND],
+          authors: [pk],
+          '#t': [`${this.namespace}:${type}`],
+          since
+        }],
+        {
+          onevent: (event) => {
+            this.store.save(event).catch(err => onError(err instanceof Error ? err : new Error(String(err))))
+
+            const deletedTag = event.tags.find(t => t[0] === 'deleted')
+            if (deletedTag) {
+              onChange({ event, appData: {} as CurrentAppData, data: {} as T }, 'delete')
+              return
+            }
+
+            const parsed = this.parseEvent<T>(event)
+            if (parsed) {
+              const isNew = parsed.appData.metadata.createdAt === parsed.appData.metadata.updatedAt
+              onChange(parsed, isNew ? 'create' : 'update')
+            }
           }
         }
+      )
+    }).catch(err => {
+      if (!closed) onError(err instanceof Error ? err : new Error(String(err)))
+    })
+
+    return {
+      close: () => {
+        closed = true
+        sub?.close()
       }
-    )
+    }
   }
 
   // -------------------------------------------------------------------------
@@ -417,8 +531,8 @@ interface Document {
 }
 
 async function main() {
-  const sk = generateSecretKey()
-  const repo = new AppDataRepository(sk, { namespace: 'myapp' })
+  const signer = new LocalKeySigner()
+  const repo = new AppDataRepository(signer, { namespace: 'myapp' })
 
   // Save settings
   await repo.save<UserSettings>('settings', 'user-prefs', {
@@ -442,6 +556,11 @@ async function main() {
   const docs = await repo.list<Document>('document')
   console.log('Documents:', docs.map(d => d.data.title))
 
+  // Share a document; anyone can resolve the naddr to its latest version
+  const naddr = await repo.getNaddr('document', 'doc-1')
+  const shared = naddr ? await repo.resolve<Document>(`nostr:${naddr}`) : null
+  console.log('Shared:', shared?.data.title)
+
   // Subscribe to document changes
   const sub = repo.subscribe<Document>('document', (item, type) => {
     console.log(`Document ${type}:`, item.data.title)
@@ -471,4 +590,4 @@ export {
   APP_DATA_KIND,
   CURRENT_VERSION
 }
-export type { AppData, AppDataV1, AppDataV2, CurrentAppData, ParsedEvent }
+export type { AppData, AppDataV1, AppDataV2, CurrentAppData, ParsedEvent, PublishReport, AuthPolicy, RelayAuthStatus }
@@ -0,0 +1,246 @@
+/**
+ * Direct Messages Template (NIP-17, NIP-59)
+ *
+ * Private messages as unsigned kind 14 rumors, sealed (kind 13) with
+ * the sender's Signer and gift wrapped (kind 1059) with a throwaway
+ * key, so relays see neither the sender nor the real timestamp.
+ */
+
+import { finalizeEvent, generateSecretKey, getEventHash, verifyEvent } from 'nostr-tools/pure'
+import * as nip44 from 'nostr-tools/nip44'
+import type { Event, EventTemplate, UnsignedEvent } from 'nostr-tools'
+import type { Signer } from './signer'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DM_KIND = 14
+const SEAL_KIND = 13
+const GIFT_WRAP_KIND = 1059
+const DM_RELAYS_KIND = 10050
+
+// Seal and wrap timestamps are pushed up to two days into the past
+const TIMESTAMP_JITTER_SECONDS = 2 * 24 * 60 * 60
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// An unsigned event: deniable if leaked, since nothing signs it
+type Rumor = UnsignedEvent & { id: string }
+
+interface DirectMessage {
+  id: string
+  sender: string
+  // Everyone in the conversation, sender included, sorted
+  participants: string[]
+  conversationId: string
+  content: string
+  subject?: string
+  // Id of the message this replies to
+  replyTo?: string
+  createdAt: number
+  rumor: Rumor
+}
+
+interface Conversation {
+  id: string
+  participants: string[]
+  // Latest subject set by anyone in the conversation
+  subject?: string
+  // Oldest first
+  messages: DirectMessage[]
+}
+
+// ============================================================================
+// Wrapping
+// ============================================================================
+
+function randomPastTimestamp(): number {
+  return Math.floor(Date.now() / 1000 - Math.random() * TIMESTAMP_JITTER_SECONDS)
+}
+
+function createRumor(
+  sender: string,
+  recipients: string[],
+  content: string,
+  options: { subject?: string; replyTo?: string } = {}
+): Rumor {
+  const tags = recipients.map(pk => ['p', pk])
+  if (options.subject) tags.push(['subject', options.subject])
+  if (options.replyTo) tags.push(['e', options.replyTo, '', 'reply'])
+
+  const unsigned: UnsignedEvent = {
+    kind: DM_KIND,
+    pubkey: sender,
+    created_at: Math.floor(Date.now() / 1000),
+    tags,
+    content
+  }
+  return { ...unsigned, id: getEventHash(unsigned) }
+}
+
+// Kind 13: the rumor encrypted to one recipient, signed by the sender
+async function sealRumor(rumor: Rumor, signer: Signer, recipient: string): Promise<Event> {
+  return signer.signEvent({
+    kind: SEAL_KIND,
+    created_at: randomPastTimestamp(),
+    tags: [],
+    content: await signer.encrypt(recipient, JSON.stringify(rumor))
+  })
+}
+
+// Kind 1059: the seal encrypted again by a key used only this once
+function giftWrap(seal: Event, recipient: string): Event {
+  const wrapKey = generateSecretKey()
+  const conversationKey = nip44.v2.utils.getConversationKey(wrapKey, recipient)
+
+  const template: EventTemplate = {
+    kind: GIFT_WRAP_KIND,
+    created_at: randomPastTimestamp(),
+    tags: [['p', recipient]],
+    content: nip44.v2.encrypt(JSON.stringify(seal), conversationKey)
+  }
+  return finalizeEvent(template, wrapKey)
+}
+
+async function wrapForRecipient(rumor: Rumor, signer: Signer, recipient: string): Promise<Event> {
+  return giftWrap(await sealRumor(rumor, signer, recipient), recipient)
+}
+
+/**
+ * Open a gift wrap addressed to the signer's key. Throws when any
+ * layer fails to decrypt or verify, or when the rumor claims a
+ * different author than the seal that carried it.
+ */
+async function unwrapGiftWrap(wrap: Event, signer: Signer): Promise<Rumor> {
+  if (wrap.kind !== GIFT_WRAP_KIND) throw new Error(`Expected kind ${GIFT_WRAP_KIND}, got ${wrap.kind}`)
+
+  const seal = JSON.parse(await signer.decrypt(wrap.pubkey, wrap.content)) as Event
+  if (seal.kind !== SEAL_KIND || !verifyEvent(seal)) {
+    throw new Error('Gift wrap does not contain a valid seal')
+  }
+
+  const rumor = JSON.parse(await signer.decrypt(seal.pubkey, seal.content)) as Rumor
+  // The seal's signature is the only proof of who wrote the rumor
+  if (rumor.pubkey !== seal.pubkey) {
+    throw new Error('Rumor author does not match seal signer')
+  }
+  if (getEventHash(rumor) !== rumor.id) {
+    throw new Error('Rumor id does not match its content')
+  }
+
+  return rumor
+}
+
+// ============================================================================
+// Conversations
+// ============================================================================
+
+function getParticipants(rumor: Rumor): string[] {
+  const pubkeys = rumor.tags.filter(t => t[0] === 'p' && t[1]).map(t => t[1])
+  return [...new Set([rumor.pubkey, ...pubkeys])].sort()
+}
+
+// The participant set identifies the room; adding someone starts a new one
+function getConversationId(participants: string[]): string {
+  return [...new Set(participants)].sort().join(',')
+}
+
+function toDirectMessage(rumor: Rumor): DirectMessage {
+  // Other rumor kinds can be gift-wrapped too; they aren't chat messages
+  if (rumor.kind !== DM_KIND) throw new Error(`Expected a kind ${DM_KIND} rumor, got ${rumor.kind}`)
+
+  const participants = getParticipants(rumor)
+  return {
+    id: rumor.id,
+    sender: rumor.pubkey,
+    participants,
+    conversationId: getConversationId(participants),
+    content: rumor.content,
+    subject: rumor.tags.find(t => t[0] === 'subject')?.[1],
+    replyTo: rumor.tags.find(t => t[0] === 'e')?.[1],
+    createdAt: rumor.created_at,
+    rumor
+  }
+}
+
+function groupConversations(messages: DirectMessage[]): Conversation[] {
+  const conversations = new Map<string, Conversation>()
+
+  for (const message of messages) {
+    let conversation = conversations.get(message.conversationId)
+    if (!conversation) {
+      conversation = { id: message.conversationId, participants: message.participants, messages: [] }
+      conversations.set(message.conversationId, conversation)
+    }
+    if (!conversation.messages.some(m => m.id === message.id)) {
+      conversation.messages.push(message)
+    }
+  }
+
+  return [...conversations.values()]
+    .map(conversation => {
+      conversation.messages.sort((a, b) => a.createdAt - b.createdAt)
+      conversation.subject = conversation.messages.filter(m => m.subject).at(-1)?.subject
+      return conversation
+    })
+    // Most recently active first
+    .sort((a, b) => b.messages[b.messages.length - 1].createdAt - a.messages[a.messages.length - 1].createdAt)
+}
+
+// ============================================================================
+// DM Relays (kind 10050)
+// ============================================================================
+
+function parseDmRelays(event: Event): string[] {
+  return event.tags.filter(t => t[0] === 'relay' && t[1]).map(t => t[1])
+}
+
+function buildDmRelayListTemplate(relays: string[]): EventTemplate {
+  return {
+    kind: DM_RELAYS_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: relays.map(url => ['relay', url]),
+    content: ''
+  }
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main(alice: Signer, bob: Signer) {
+  const bobPk = await bob.getPublicKey()
+
+  const rumor = createRumor(await alice.getPublicKey(), [bobPk], 'Lunch at noon?', { subject: 'Friday' })
+  const wrap = await wrapForRecipient(rumor, alice, bobPk)
+  console.log('Relays see kind', wrap.kind, 'from', wrap.pubkey, '(a one-time key)')
+
+  const message = toDirectMessage(await unwrapGiftWrap(wrap, bob))
+  console.log(`${message.sender}: ${message.content}`)
+
+  const [conversation] = groupConversations([message])
+  console.log('Conversation:', conversation.subject, conversation.participants)
+}
+
+// Export
+export {
+  createRumor,
+  sealRumor,
+  giftWrap,
+  wrapForRecipient,
+  unwrapGiftWrap,
+  toDirectMessage,
+  getConversationId,
+  groupConversations,
+  parseDmRelays,
+  buildDmRelayListTemplate,
+  DM_KIND,
+  SEAL_KIND,
+  GIFT_WRAP_KIND,
+  DM_RELAYS_KIND,
+  TIMESTAMP_JITTER_SECONDS
+}
+export type { Rumor, DirectMessage, Conversation }
@@ -0,0 +1,159 @@
+/**
+ * Entities Template (NIP-19, NIP-21)
+ *
+ * Encodes shareable nprofile/nevent/naddr references with relay
+ * hints and decodes any bech32 entity or `nostr:` URI into a pointer
+ * that says what to fetch and where to look first.
+ */
+
+import * as nip19 from 'nostr-tools/nip19'
+import { isReplaceableKind, isParameterizedReplaceableKind } from 'nostr-tools/kinds'
+import type { Event, Filter } from 'nostr-tools'
+import type { AddressPointer, EventPointer, ProfilePointer } from 'nostr-tools/nip19'
+import type { Profile } from './profile'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// More hints make the string longer without helping much
+const MAX_RELAY_HINTS = 3
+
+const NOSTR_URI_PREFIX = 'nostr:'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type EntityPointer =
+  | { type: 'profile'; pointer: ProfilePointer }
+  | { type: 'event'; pointer: EventPointer }
+  | { type: 'address'; pointer: AddressPointer }
+
+type ResolvedEntity =
+  | { type: 'profile'; pubkey: string; profile: Profile | null }
+  | { type: 'event'; id: string; event: Event | null }
+  | { type: 'address'; address: string; event: Event | null }
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+function limitHints(relays: string[]): string[] {
+  return [...new Set(relays)].slice(0, MAX_RELAY_HINTS)
+}
+
+function encodeNprofile(pubkey: string, relays: string[] = []): string {
+  return nip19.nprofileEncode({ pubkey, relays: limitHints(relays) })
+}
+
+function encodeNevent(event: Event, relays: string[] = []): string {
+  return nip19.neventEncode({
+    id: event.id,
+    relays: limitHints(relays),
+    author: event.pubkey,
+    kind: event.kind
+  })
+}
+
+/**
+ * naddr points at the latest version of a replaceable or addressable
+ * event rather than one immutable id.
+ */
+function encodeNaddr(event: Event, relays: string[] = []): string {
+  if (!isReplaceableKind(event.kind) && !isParameterizedReplaceableKind(event.kind)) {
+    throw new Error(`Kind ${event.kind} is not addressable; use nevent`)
+  }
+
+  return nip19.naddrEncode({
+    kind: event.kind,
+    pubkey: event.pubkey,
+    identifier: event.tags.find(t => t[0] === 'd')?.[1] ?? '',
+    relays: limitHints(relays)
+  })
+}
+
+function toNostrUri(entity: string): string {
+  return entity.startsWith(NOSTR_URI_PREFIX) ? entity : NOSTR_URI_PREFIX + entity
+}
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+/**
+ * Decode npub, nprofile, note, nevent or naddr, with or without a
+ * `nostr:` prefix. Secret keys are refused rather than decoded, so a
+ * pasted nsec never ends up in a lookup or a log line.
+ */
+function parseEntity(input: string): EntityPointer {
+  let entity = input.trim()
+  if (entity.toLowerCase().startsWith(NOSTR_URI_PREFIX)) {
+    entity = entity.slice(NOSTR_URI_PREFIX.length)
+  }
+
+  if (/^(nsec|ncryptsec)1/i.test(entity)) {
+    throw new Error('Refusing to decode a secret key')
+  }
+
+  let decoded: nip19.DecodeResult
+  try {
+    decoded = nip19.decode(entity)
+  } catch (err) {
+    throw new Error(`Invalid NIP-19 entity: ${err instanceof Error ? err.message : err}`)
+  }
+
+  switch (decoded.type) {
+    case 'npub':
+      return { type: 'profile', pointer: { pubkey: decoded.data } }
+    case 'nprofile':
+      return { type: 'profile', pointer: decoded.data }
+    case 'note':
+      return { type: 'event', pointer: { id: decoded.data } }
+    case 'nevent':
+      return { type: 'event', pointer: decoded.data }
+    case 'naddr':
+      return { type: 'address', pointer: decoded.data }
+    default:
+      throw new Error(`Unsupported NIP-19 entity: ${decoded.type}`)
+  }
+}
+
+// `kind:pubkey:d`, the form used in `a` tags
+function formatAddress(pointer: AddressPointer): string {
+  return `${pointer.kind}:${pointer.pubkey}:${pointer.identifier}`
+}
+
+// Replaceable kinds (0, 3, 10002...) carry no d tag, so only
+// addressable ones are matched on the identifier
+function addressFilter(pointer: AddressPointer): Filter {
+  const filter: Filter = { kinds: [pointer.kind], authors: [pointer.pubkey] }
+  if (isParameterizedReplaceableKind(pointer.kind)) filter['#d'] = [pointer.identifier]
+  return filter
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+function main(event: Event) {
+  const nevent = encodeNevent(event, ['wss://relay.damus.io', 'wss://nos.lol'])
+  console.log('Share:', toNostrUri(nevent))
+
+  const { type, pointer } = parseEntity(`nostr:${nevent}`)
+  console.log(type, pointer)
+}
+
+// Export
+export {
+  encodeNprofile,
+  encodeNevent,
+  encodeNaddr,
+  toNostrUri,
+  parseEntity,
+  formatAddress,
+  addressFilter,
+  MAX_RELAY_HINTS,
+  NOSTR_URI_PREFIX
+}
+export type { EntityPointer, ResolvedEntity }
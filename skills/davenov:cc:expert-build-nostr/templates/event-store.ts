@@ -0,0 +1,120 @@
+/**
+ * Event Store Template
+ *
+ * A local cache for every event a client sees. Evaluates NIP-01
+ * filters locally and applies replaceable/addressable replacement
+ * rules, so repeated queries don't have to hit the network.
+ * Browser-safe: the Node file store lives in jsonl-event-store.ts.
+ */
+
+import { matchFilter } from 'nostr-tools/filter'
+import { isEphemeralKind, isReplaceableKind, isParameterizedReplaceableKind } from 'nostr-tools/kinds'
+import type { Event, Filter } from 'nostr-tools'
+
+// ============================================================================
+// Store Interface
+// ============================================================================
+
+interface EventStore {
+  // Resolves false for duplicates, ephemeral kinds and superseded versions
+  save(event: Event): Promise<boolean>
+  // Matching events, newest first, capped at filter.limit
+  query(filter: Filter): Promise<Event[]>
+  get(id: string): Promise<Event | null>
+}
+
+/**
+ * Key under which only the latest event is kept, or null for
+ * regular kinds where every event is stored.
+ */
+function getReplaceKey(event: Event): string | null {
+  if (isReplaceableKind(event.kind)) {
+    return `${event.kind}:${event.pubkey}`
+  }
+  if (isParameterizedReplaceableKind(event.kind)) {
+    const d = event.tags.find(t => t[0] === 'd')?.[1] ?? ''
+    return `${event.kind}:${event.pubkey}:${d}`
+  }
+  return null
+}
+
+// NIP-01: newer created_at wins, ties go to the lowest id
+function isNewer(a: Event, b: Event): boolean {
+  if (a.created_at !== b.created_at) return a.created_at > b.created_at
+  return a.id < b.id
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+class MemoryEventStore implements EventStore {
+  protected events = new Map<string, Event>()
+  private replaceable = new Map<string, string>()
+
+  async save(event: Event): Promise<boolean> {
+    return this.insert(event) !== null
+  }
+
+  /**
+   * Applies storage rules. Returns the id of the event it replaced
+   * ('' when nothing was replaced), or null when not stored.
+   */
+  protected insert(event: Event): string | null {
+    if (isEphemeralKind(event.kind)) return null
+    if (this.events.has(event.id)) return null
+
+    const key = getReplaceKey(event)
+    if (!key) {
+      this.events.set(event.id, event)
+      return ''
+    }
+
+    const currentId = this.replaceable.get(key)
+    const current = currentId ? this.events.get(currentId) : undefined
+    if (current && !isNewer(event, current)) return null
+
+    if (currentId) this.events.delete(currentId)
+    this.events.set(event.id, event)
+    this.replaceable.set(key, event.id)
+    return currentId ?? ''
+  }
+
+  async query(filter: Filter): Promise<Event[]> {
+    // Fast path for id lookups
+    const candidates = filter.ids
+      ? filter.ids.map(id => this.events.get(id)).filter((e): e is Event => !!e)
+      : [...this.events.values()]
+
+    const matches = candidates
+      .filter(event => matchFilter(filter, event))
+      .sort((a, b) => b.created_at - a.created_at)
+
+    return filter.limit !== undefined ? matches.slice(0, filter.limit) : matches
+  }
+
+  async get(id: string): Promise<Event | null> {
+    return this.events.get(id) ?? null
+  }
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main(events: Event[]) {
+  // Browser-safe; JsonlEventStore in jsonl-event-store.ts persists on Node
+  const store = new MemoryEventStore()
+
+  for (const event of events) {
+    await store.save(event)
+  }
+
+  // Same filter semantics as a relay
+  const recent = await store.query({ kinds: [1], '#t': ['nostr'], limit: 10 })
+  console.log('Cached notes:', recent.length)
+}
+
+// Export
+export { MemoryEventStore, getReplaceKey }
+export type { EventStore }
@@ -0,0 +1,147 @@
+/**
+ * Event Validator Template
+ *
+ * Checks every event a relay sends before the app sees it: shape,
+ * recomputed id, Schnorr signature and timestamp sanity. Invalid
+ * events go to an `onInvalidEvent` hook with the relay that sent them.
+ */
+
+import { getEventHash, verifyEvent } from 'nostr-tools/pure'
+import { SimplePool } from 'nostr-tools/pool'
+import type { Event, VerifiedEvent } from 'nostr-tools'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// all: check every signature. sampled: check ids always, signatures
+// at `sampleRate`. trust: shape and timestamp only (trusted relays).
+type VerificationMode = 'all' | 'sampled' | 'trust'
+
+interface ValidationPolicy {
+  mode: VerificationMode
+  sampleRate: number
+  // Clock skew tolerated before an event counts as future-dated
+  maxFutureSeconds: number
+}
+
+type InvalidReason = 'malformed' | 'invalid-id' | 'invalid-signature' | 'future-dated'
+
+interface InvalidEventReport {
+  event: unknown
+  reason: InvalidReason
+  // Relay that delivered the event, when known
+  relay?: string
+}
+
+const DEFAULT_VALIDATION_POLICY: ValidationPolicy = {
+  mode: 'all',
+  sampleRate: 0.1,
+  maxFutureSeconds: 15 * 60
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const HEX_64 = /^[0-9a-f]{64}$/
+const HEX_128 = /^[0-9a-f]{128}$/
+
+function isWellFormed(event: unknown): event is Event {
+  if (typeof event !== 'object' || event === null) return false
+  const e = event as Record<string, unknown>
+
+  return (
+    typeof e.id === 'string' && HEX_64.test(e.id) &&
+    typeof e.pubkey === 'string' && HEX_64.test(e.pubkey) &&
+    typeof e.sig === 'string' && HEX_128.test(e.sig) &&
+    Number.isInteger(e.kind) && (e.kind as number) >= 0 && (e.kind as number) <= 65535 &&
+    Number.isInteger(e.created_at) && (e.created_at as number) >= 0 &&
+    typeof e.content === 'string' &&
+    Array.isArray(e.tags) &&
+    e.tags.every(tag => Array.isArray(tag) && tag.every(v => typeof v === 'string'))
+  )
+}
+
+class EventValidator {
+  private policy: ValidationPolicy
+  private onInvalidEvent: (report: InvalidEventReport) => void
+
+  constructor(
+    policy: Partial<ValidationPolicy> = {},
+    onInvalidEvent: (report: InvalidEventReport) => void = () => {}
+  ) {
+    this.policy = { ...DEFAULT_VALIDATION_POLICY, ...policy }
+    this.onInvalidEvent = onInvalidEvent
+  }
+
+  /**
+   * Returns the reason an event must be rejected, or null if it passes.
+   */
+  check(event: unknown): InvalidReason | null {
+    if (!isWellFormed(event)) return 'malformed'
+
+    const now = Math.floor(Date.now() / 1000)
+    if (event.created_at > now + this.policy.maxFutureSeconds) return 'future-dated'
+
+    const { mode, sampleRate } = this.policy
+    if (mode === 'trust') return null
+
+    if (getEventHash(event) !== event.id) return 'invalid-id'
+
+    const checkSignature = mode === 'all' || Math.random() < sampleRate
+    if (checkSignature && !verifyEvent(event)) return 'invalid-signature'
+
+    return null
+  }
+
+  validate(event: unknown, relay?: string): event is Event {
+    const reason = this.check(event)
+    if (reason) {
+      this.onInvalidEvent({ event, reason, relay })
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Replace the pool's built-in verification so every event from every
+   * relay (subscriptions, queries, gets) passes through this validator.
+   * Call before the pool opens its first relay connection.
+   */
+  install(pool: SimplePool): void {
+    const validator = this
+
+    // nostr-tools calls verifyEvent as a method of the relay that
+    // received the event, so `this.url` identifies the sender
+    pool.verifyEvent = function (this: { url?: string } | undefined, event: Event): event is VerifiedEvent {
+      return validator.validate(event, this?.url)
+    }
+  }
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main() {
+  const pool = new SimplePool()
+  const rejected = new Map<string, number>()
+
+  const validator = new EventValidator({ mode: 'sampled', sampleRate: 0.25 }, ({ reason, relay }) => {
+    const key = `${relay ?? 'unknown'} ${reason}`
+    rejected.set(key, (rejected.get(key) ?? 0) + 1)
+  })
+  validator.install(pool)
+
+  // Only valid events reach this callback
+  pool.subscribeMany(['wss://relay.damus.io'], [{ kinds: [1], limit: 50 }], {
+    onevent: (event) => console.log('Valid:', event.id)
+  })
+
+  setInterval(() => console.log('Rejected:', Object.fromEntries(rejected)), 10000)
+}
+
+// Export
+export { EventValidator, isWellFormed, DEFAULT_VALIDATION_POLICY }
+export type { ValidationPolicy, VerificationMode, InvalidReason, InvalidEventReport }
@@ -0,0 +1,105 @@
+/**
+ * JSONL Event Store Template (Node)
+ *
+ * A MemoryEventStore that survives restarts by appending every stored
+ * event to a file. Kept apart from event-store.ts so browser bundles
+ * that import the client never pull in node:fs.
+ */
+
+import { appendFile, readFile, writeFile } from 'node:fs/promises'
+import type { Event } from 'nostr-tools'
+import { MemoryEventStore } from './event-store'
+
+// ============================================================================
+// JSONL Store
+// ============================================================================
+
+/**
+ * Appends every stored event as one JSON line. Replaced versions stay
+ * in the file until compact() rewrites it; replaying the file on open
+ * applies the replacement rules again.
+ */
+class JsonlEventStore extends MemoryEventStore {
+  private path: string
+  private superseded = 0
+  // Appends and rewrites run one at a time, so a compaction can't
+  // overwrite an append still in flight
+  private writes: Promise<void> = Promise.resolve()
+
+  private constructor(path: string) {
+    super()
+    this.path = path
+  }
+
+  static async open(path: string): Promise<JsonlEventStore> {
+    const store = new JsonlEventStore(path)
+
+    let content = ''
+    try {
+      content = await readFile(path, 'utf8')
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue
+      try {
+        // Anything but a plain insert is a dead line in the file
+        if (store.insert(JSON.parse(line) as Event) !== '') store.superseded++
+      } catch {
+        // Skip a torn last line from an interrupted write
+      }
+    }
+
+    return store
+  }
+
+  async save(event: Event): Promise<boolean> {
+    const replaced = this.insert(event)
+    if (replaced === null) return false
+    if (replaced) this.superseded++
+
+    await this.enqueue(() => appendFile(this.path, JSON.stringify(event) + '\n'))
+
+    // Rewrite once replaced versions dominate the file
+    if (this.superseded > 1000 && this.superseded > this.events.size) {
+      await this.compact()
+    }
+    return true
+  }
+
+  async compact(): Promise<void> {
+    await this.enqueue(async () => {
+      // Snapshot when the rewrite runs, after every earlier append
+      const lines = [...this.events.values()].map(e => JSON.stringify(e) + '\n')
+      this.superseded = 0
+      await writeFile(this.path, lines.join(''))
+    })
+  }
+
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const next = this.writes.then(write)
+    // One failed write mustn't block the ones after it
+    this.writes = next.catch(() => {})
+    return next
+  }
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main(events: Event[]) {
+  const store = await JsonlEventStore.open('./events.jsonl')
+
+  for (const event of events) {
+    await store.save(event)
+  }
+
+  // Same filter semantics as a relay, and still there after a restart
+  const recent = await store.query({ kinds: [1], '#t': ['nostr'], limit: 10 })
+  console.log('Cached notes:', recent.length)
+}
+
+// Export
+export { JsonlEventStore }
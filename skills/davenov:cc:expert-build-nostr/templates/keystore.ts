@@ -0,0 +1,141 @@
+/**
+ * Keystore Template
+ *
+ * Saves multiple named identities to one JSON file on disk. Secret
+ * keys are only ever written as NIP-49 ncryptsec strings.
+ */
+
+import { readFile, rename, writeFile } from 'node:fs/promises'
+import { exportEncrypted, importEncrypted, generateKeyPair } from './basic-client'
+import type { KeyPair, KeySecurity } from './basic-client'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface StoredIdentity {
+  ncryptsec: string
+  // Stored in clear so identities can be listed without a password
+  pubkey: string
+  createdAt: number
+}
+
+interface KeystoreFile {
+  version: 1
+  identities: Record<string, StoredIdentity>
+}
+
+interface IdentitySummary {
+  name: string
+  pubkey: string
+  createdAt: number
+}
+
+// ============================================================================
+// Keystore
+// ============================================================================
+
+class Keystore {
+  private path: string
+  private file: KeystoreFile
+
+  private constructor(path: string, file: KeystoreFile) {
+    this.path = path
+    this.file = file
+  }
+
+  static async open(path: string): Promise<Keystore> {
+    let content: string
+    try {
+      content = await readFile(path, 'utf8')
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+      return new Keystore(path, { version: 1, identities: Object.create(null) })
+    }
+
+    const file = JSON.parse(content) as KeystoreFile
+    if (file.version !== 1 || typeof file.identities !== 'object' || file.identities === null) {
+      throw new Error(`Unrecognized keystore format in ${path}`)
+    }
+    // No prototype, so names like "constructor" or "__proto__" are just names
+    file.identities = Object.assign(Object.create(null), file.identities)
+    return new Keystore(path, file)
+  }
+
+  list(): IdentitySummary[] {
+    return Object.entries(this.file.identities)
+      .map(([name, { pubkey, createdAt }]) => ({ name, pubkey, createdAt }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  has(name: string): boolean {
+    return Object.hasOwn(this.file.identities, name)
+  }
+
+  async save(
+    name: string,
+    keyPair: KeyPair,
+    password: string,
+    options: { logN?: number; keySecurity?: KeySecurity; overwrite?: boolean } = {}
+  ): Promise<void> {
+    if (!name.trim()) throw new Error('Identity name must not be empty')
+    if (this.has(name) && !options.overwrite) {
+      throw new Error(`Identity "${name}" already exists`)
+    }
+
+    this.file.identities[name] = {
+      ncryptsec: exportEncrypted(keyPair, password, options),
+      pubkey: keyPair.pk,
+      createdAt: Math.floor(Date.now() / 1000)
+    }
+    await this.flush()
+  }
+
+  // Throws NcryptsecError on a wrong password or damaged entry
+  load(name: string, password: string): KeyPair {
+    const identity = this.has(name) ? this.file.identities[name] : undefined
+    if (!identity) throw new Error(`No identity named "${name}"`)
+
+    const keyPair = importEncrypted(identity.ncryptsec, password)
+    if (keyPair.pk !== identity.pubkey) {
+      throw new Error(`Identity "${name}" decrypts to a different pubkey than recorded`)
+    }
+    return keyPair
+  }
+
+  async remove(name: string): Promise<boolean> {
+    if (!this.has(name)) return false
+    delete this.file.identities[name]
+    await this.flush()
+    return true
+  }
+
+  private async flush(): Promise<void> {
+    // Write then rename so a crash never leaves a half-written file
+    const tmp = `${this.path}.tmp`
+    await writeFile(tmp, JSON.stringify(this.file, null, 2) + '\n', { mode: 0o600 })
+    await rename(tmp, this.path)
+  }
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main() {
+  const keystore = await Keystore.open('./identities.json')
+
+  if (!keystore.has('work')) {
+    // 0x01: generated here, never shown in clear
+    await keystore.save('work', generateKeyPair(), 'correct horse battery staple', { keySecurity: 0x01 })
+  }
+
+  keystore.list().forEach(({ name, pubkey }) => console.log(name, pubkey))
+
+  const work = keystore.load('work', 'correct horse battery staple')
+  console.log('Loaded:', work.npub)
+}
+
+// Export
+export { Keystore }
+export type { StoredIdentity, IdentitySummary }
@@ -0,0 +1,171 @@
+/**
+ * Message Validator Template
+ *
+ * Runtime checks for PubSubHandler messages: every variant's shape,
+ * the protocol version, and how far an event's `created_at` or a
+ * message's `timestamp` may stray from now. Anything else is thrown
+ * out before a handler sees it.
+ */
+
+import type { Message, RpcErrorPayload } from './pubsub-handler'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type MessageErrorReason =
+  | 'malformed'
+  | 'unsupported-version'
+  | 'undecryptable'
+  // Cleartext where encryption is required
+  | 'cleartext'
+  | 'stale'
+  | 'future-dated'
+
+interface FreshnessPolicy {
+  // Older events are dropped; also how long replay protection must
+  // remember ids
+  maxAgeSeconds: number
+  // Clock skew tolerated
+  maxFutureSeconds: number
+}
+
+const DEFAULT_FRESHNESS_POLICY: FreshnessPolicy = {
+  maxAgeSeconds: 5 * 60,
+  maxFutureSeconds: 60
+}
+
+const PROTOCOL_VERSION = 1
+
+class MessageValidationError extends Error {
+  readonly reason: MessageErrorReason
+
+  constructor(reason: MessageErrorReason, message: string) {
+    super(message)
+    this.name = 'MessageValidationError'
+    this.reason = reason
+  }
+}
+
+// ============================================================================
+// Shape
+// ============================================================================
+
+type Fields = Record<string, unknown>
+
+function fail(message: string): never {
+  throw new MessageValidationError('malformed', message)
+}
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function requireString(fields: Fields, key: string): void {
+  if (typeof fields[key] !== 'string' || fields[key] === '') fail(`${key} must be a non-empty string`)
+}
+
+function requireCount(fields: Fields, key: string): void {
+  if (!Number.isSafeInteger(fields[key]) || (fields[key] as number) < 0) fail(`${key} must be a non-negative integer`)
+}
+
+function checkError(error: unknown): void {
+  if (error === undefined) return
+  const payload = error as Partial<RpcErrorPayload>
+  if (!isObject(error) || !Number.isSafeInteger(payload.code) || typeof payload.message !== 'string') {
+    fail('error must have an integer code and a message')
+  }
+}
+
+/**
+ * Check a decoded message against its variant. Unknown extra fields
+ * pass, so newer peers can add optional ones without a version bump.
+ */
+function parseMessage(value: unknown): Message {
+  if (!isObject(value)) fail('message must be an object')
+
+  if (value.version !== PROTOCOL_VERSION) {
+    throw new MessageValidationError('unsupported-version', `Unsupported message version: ${String(value.version)}`)
+  }
+  if (typeof value.timestamp !== 'number' || !Number.isFinite(value.timestamp)) fail('timestamp must be a number')
+
+  switch (value.type) {
+    case 'data':
+      if ((value.stream === undefined) !== (value.seq === undefined)) fail('stream and seq go together')
+      if (value.stream !== undefined) {
+        requireString(value, 'stream')
+        requireCount(value, 'seq')
+      }
+      break
+    case 'request':
+      requireString(value, 'correlationId')
+      requireString(value, 'method')
+      break
+    case 'response':
+      requireString(value, 'correlationId')
+      checkError(value.error)
+      break
+    case 'progress':
+      requireString(value, 'correlationId')
+      break
+    case 'chunk':
+      requireString(value, 'correlationId')
+      requireCount(value, 'seq')
+      break
+    case 'end':
+      requireString(value, 'correlationId')
+      requireCount(value, 'count')
+      checkError(value.error)
+      break
+    case 'ack':
+      requireString(value, 'stream')
+      requireCount(value, 'seq')
+      break
+    case 'presence':
+      if (value.status !== 'online' && value.status !== 'offline') fail('status must be online or offline')
+      if (typeof value.intervalMs !== 'number' || !(value.intervalMs > 0)) fail('intervalMs must be positive')
+      if (!Array.isArray(value.capabilities) || !value.capabilities.every(c => typeof c === 'string')) {
+        fail('capabilities must be a string array')
+      }
+      if (value.metadata !== undefined && !isObject(value.metadata)) fail('metadata must be an object')
+      break
+    default:
+      fail(`Unknown message type: ${String(value.type)}`)
+  }
+
+  return value as unknown as Message
+}
+
+// ============================================================================
+// Freshness
+// ============================================================================
+
+// `seconds` is a Unix time: an event's created_at, or a timestamp / 1000
+function checkFreshness(
+  seconds: number,
+  policy: FreshnessPolicy,
+  options: { ignoreAge?: boolean } = {}
+): MessageErrorReason | null {
+  const now = Math.floor(Date.now() / 1000)
+  if (seconds > now + policy.maxFutureSeconds) return 'future-dated'
+  if (!options.ignoreAge && seconds < now - policy.maxAgeSeconds) return 'stale'
+  return null
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+function main(content: string) {
+  try {
+    const message = parseMessage(JSON.parse(content))
+    const reason = checkFreshness(Math.floor(message.timestamp / 1000), DEFAULT_FRESHNESS_POLICY)
+    console.log(reason ? `Rejected: ${reason}` : `Valid ${message.type}`)
+  } catch (err) {
+    if (err instanceof MessageValidationError) console.log('Rejected:', err.reason, err.message)
+  }
+}
+
+// Export
+export { parseMessage, checkFreshness, MessageValidationError, DEFAULT_FRESHNESS_POLICY, PROTOCOL_VERSION }
+export type { MessageErrorReason, FreshnessPolicy }
@@ -0,0 +1,297 @@
+/**
+ * Mock Relay Tests
+ *
+ * Runs the client templates end to end against in-process relays:
+ * publishing, subscriptions, PubSubHandler request/response,
+ * AppDataRepository CRUD and NIP-46 remote signing. No network needed:
+ *
+ *   npx tsx --test mock-relay.test.ts
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { SimplePool } from 'nostr-tools/pool'
+import { verifyEvent } from 'nostr-tools/pure'
+import type { EventTemplate } from 'nostr-tools'
+import { MockRelay, useMockRelays, mockRelayFetch } from './mock-relay'
+import { NostrClient } from './basic-client'
+import { buildRelayListTemplate } from './outbox'
+import { PubSubHandler, RpcError } from './pubsub-handler'
+import { AppDataRepository, APP_DATA_KIND } from './custom-event-schema'
+import { LocalKeySigner, LocalBunker, Nip46Signer, NOSTR_CONNECT_KIND } from './signer'
+
+useMockRelays()
+
+// Short timeouts so a missing reply fails the test instead of hanging it
+const publishPolicy = { timeoutMs: 500, retries: 0 }
+
+let nextRelay = 1
+function createRelays(count: number): MockRelay[] {
+  return Array.from({ length: count }, () => new MockRelay(`ws://relay-${nextRelay++}.test`))
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition')
+    await new Promise(r => setTimeout(r, 10))
+  }
+}
+
+// ============================================================================
+// Publish
+// ============================================================================
+
+test('publish reports every relay that accepted and stores the event there', async (t) => {
+  const [relayA, relayB] = createRelays(2)
+  const client = new NostrClient({ relays: [relayA.url, relayB.url], outbox: false, fetch: mockRelayFetch, publishPolicy })
+  t.after(async () => {
+    client.close()
+    await relayA.close()
+    await relayB.close()
+  })
+
+  const report = await client.publishNote('Hello, mock relays')
+
+  assert.deepEqual(report.accepted.sort(), [relayA.url, relayB.url].sort())
+  assert.equal(report.complete, true)
+  const [stored] = await relayA.query({ ids: [report.event.id] })
+  assert.equal(stored?.content, 'Hello, mock relays')
+})
+
+test('publish reports a relay that rejects the event, with its reason', async (t) => {
+  const [relayA, relayB] = createRelays(2)
+  const client = new NostrClient({ relays: [relayA.url, relayB.url], outbox: false, fetch: mockRelayFetch, publishPolicy })
+  t.after(async () => {
+    client.close()
+    await relayA.close()
+    await relayB.close()
+  })
+
+  relayB.setFaults({ rejectEvent: (event) => event.kind === 1 ? 'blocked: read-only' : null })
+  const report = await client.publishNote('Only relay A takes this')
+
+  assert.deepEqual(report.accepted, [relayA.url])
+  assert.equal(report.complete, false)
+  const rejected = report.results.find(r => r.relay === relayB.url)
+  assert.equal(rejected?.status, 'rejected')
+  assert.equal(rejected?.reason, 'blocked: read-only')
+  assert.equal((await relayB.query({ kinds: [1] })).length, 0)
+})
+
+// ============================================================================
+// Subscribe
+// ============================================================================
+
+test('subscribe delivers stored and live events once each', async (t) => {
+  const [relayA, relayB] = createRelays(2)
+  const relays = [relayA.url, relayB.url]
+  const reader = new NostrClient({ relays, outbox: false, fetch: mockRelayFetch, publishPolicy })
+  const writer = new NostrClient({ relays, outbox: false, fetch: mockRelayFetch, publishPolicy })
+  t.after(async () => {
+    reader.close()
+    writer.close()
+    await relayA.close()
+    await relayB.close()
+  })
+
+  const stored = await writer.publishNote('Before subscribing')
+  const received: string[] = []
+  let eose = false
+  const sub = reader.subscribe({ kinds: [1] }, (event) => received.push(event.content), () => { eose = true })
+  t.after(() => sub.close())
+
+  await waitFor(() => eose)
+  assert.deepEqual(received, ['Before subscribing'])
+
+  await writer.publishNote('After subscribing')
+  await waitFor(() => received.length === 2)
+  // Both relays have both events; each reaches the callback once
+  await new Promise(r => setTimeout(r, 50))
+  assert.deepEqual(received, ['Before subscribing', 'After subscribing'])
+  assert.ok(await reader.getEvent(stored.event.id))
+})
+
+// ============================================================================
+// Outbox Routing
+// ============================================================================
+
+test('outbox routing reads from the author\'s write relays and skips malformed list entries', async (t) => {
+  const [index, ours, theirs] = createRelays(3)
+  const author = new LocalKeySigner()
+  const writer = new NostrClient({ relays: [theirs.url], outbox: false, fetch: mockRelayFetch, publishPolicy, signer: author })
+  const reader = new NostrClient({ relays: [ours.url], indexRelays: [index.url], fetch: mockRelayFetch, publishPolicy })
+  t.after(async () => {
+    writer.close()
+    reader.close()
+    await Promise.all([index, ours, theirs].map(relay => relay.close()))
+  })
+
+  // Lists come from other users and can hold anything
+  const relayList = buildRelayListTemplate([{ url: theirs.url, mode: 'write' }])
+  relayList.tags.unshift(['r', 'bad url'], ['r', 'https://not-a-relay.test'])
+  await index.seed([await author.signEvent(relayList)])
+  const note = await writer.publishNote('Only on my write relay')
+  const pk = await author.getPublicKey()
+
+  assert.deepEqual((await reader.getRelayList(pk))?.write, [theirs.url])
+  const events = await reader.query({ kinds: [1], authors: [pk] })
+  assert.deepEqual(events.map(e => e.id), [note.event.id])
+
+  const received: string[] = []
+  const sub = reader.subscribe({ kinds: [1], authors: [pk] }, (event) => received.push(event.id))
+  t.after(() => sub.close())
+  await waitFor(() => received.length === 1)
+  assert.deepEqual(received, [note.event.id])
+})
+
+// ============================================================================
+// Request / Response
+// ============================================================================
+
+test('request resolves with the handler result and rejects with its error', async (t) => {
+  const [relay] = createRelays(1)
+  const relays = [relay.url]
+  const server = new PubSubHandler({ relays, namespace: 'test', publishPolicy })
+  const caller = new PubSubHandler({ relays, namespace: 'test', publishPolicy })
+  t.after(async () => {
+    server.close()
+    caller.close()
+    await relay.close()
+  })
+
+  server.onRequest(async (method, params) => {
+    if (method === 'fail') throw new Error('boom')
+    return { method, params }
+  })
+  await waitFor(() => relay.subscriptionCount > 0)
+  const serverPk = await server.getPublicKey()
+
+  assert.deepEqual(await caller.request(serverPk, 'echo', { n: 1 }, 2000), { method: 'echo', params: { n: 1 } })
+  await assert.rejects(caller.request(serverPk, 'fail', {}, 2000), (err) => err instanceof RpcError)
+})
+
+test('request times out when nobody answers', async (t) => {
+  const [relay] = createRelays(1)
+  const caller = new PubSubHandler({ relays: [relay.url], namespace: 'test', publishPolicy })
+  const absent = new LocalKeySigner()
+  t.after(async () => {
+    caller.close()
+    await relay.close()
+  })
+
+  await assert.rejects(
+    caller.request(await absent.getPublicKey(), 'echo', {}, 300),
+    /Request timeout: echo/
+  )
+})
+
+// ============================================================================
+// CRUD
+// ============================================================================
+
+test('app data can be created, updated, read back after a restart and deleted', async (t) => {
+  const [relayA, relayB] = createRelays(2)
+  const relays = [relayA.url, relayB.url]
+  const signer = new LocalKeySigner()
+  const repo = new AppDataRepository(signer, { relays, namespace: 'test', publishPolicy })
+  t.after(async () => {
+    repo.close()
+    await relayA.close()
+    await relayB.close()
+  })
+
+  await repo.save('document', 'doc-1', { title: 'Draft' })
+  assert.equal((await repo.get<{ title: string }>('document', 'doc-1'))?.data.title, 'Draft')
+
+  await repo.save('document', 'doc-1', { title: 'Final' })
+  // Addressable: each relay keeps only the latest version
+  assert.equal((await relayA.query({ kinds: [APP_DATA_KIND] })).length, 1)
+
+  // A fresh repository only has the relays to go on
+  relayA.disconnectAll()
+  const reopened = new AppDataRepository(signer, { relays, namespace: 'test', publishPolicy })
+  t.after(() => reopened.close())
+  assert.equal((await reopened.get<{ title: string }>('document', 'doc-1'))?.data.title, 'Final')
+  assert.equal((await reopened.list('document')).length, 1)
+
+  await repo.delete('document', 'doc-1')
+  const [marker] = await relayB.query({ kinds: [APP_DATA_KIND] })
+  assert.ok(marker.tags.some(t => t[0] === 'deleted'))
+  assert.equal(await reopened.get('document', 'doc-1'), null)
+})
+
+test('app data saved again right after a delete is not lost to the deletion marker', async (t) => {
+  const [relay] = createRelays(1)
+  const repo = new AppDataRepository(new LocalKeySigner(), { relays: [relay.url], namespace: 'test', publishPolicy })
+  t.after(async () => {
+    repo.close()
+    await relay.close()
+  })
+
+  // All within one second: only created_at can order the versions
+  await repo.save('document', 'doc-1', { title: 'First' })
+  await repo.delete('document', 'doc-1')
+  await repo.save('document', 'doc-1', { title: 'Again' })
+
+  const [stored] = await relay.query({ kinds: [APP_DATA_KIND] })
+  assert.ok(!stored.tags.some(t => t[0] === 'deleted'))
+  assert.equal((await repo.get<{ title: string }>('document', 'doc-1'))?.data.title, 'Again')
+})
+
+// ============================================================================
+// Remote Signing
+// ============================================================================
+
+test('a NIP-46 signer connects to a bunker and signs as the bunker key', async (t) => {
+  const [relay] = createRelays(1)
+  const userKey = new LocalKeySigner()
+  const bunker = new LocalBunker([relay.url], { signer: userKey, secret: 'test-secret' })
+  // The nip46 module has its own pool unless given one on the mock transport
+  const pool = new SimplePool()
+  await bunker.start()
+  const remote = await Nip46Signer.connect(await bunker.getBunkerUri(), { pool })
+  const client = new NostrClient({ relays: [relay.url], outbox: false, fetch: mockRelayFetch, publishPolicy, signer: remote })
+  t.after(async () => {
+    client.close()
+    await remote.close()
+    bunker.close()
+    pool.close([relay.url])
+    await relay.close()
+  })
+
+  const template = { kind: 1, created_at: Math.floor(Date.now() / 1000), tags: [['t', 'test']], content: 'Signed remotely' }
+  const event = await remote.signEvent(template)
+  assert.ok(verifyEvent(event))
+  assert.equal(event.pubkey, await userKey.getPublicKey())
+
+  const report = await client.publishNote('Published through the bunker')
+  assert.equal(report.complete, true)
+  assert.equal(report.event.pubkey, await userKey.getPublicKey())
+})
+
+test('a NIP-46 signer rejects an event the bunker changed', async (t) => {
+  const [relay] = createRelays(1)
+  // Signs its own replies faithfully, but edits what it signs for us
+  class TamperingSigner extends LocalKeySigner {
+    async signEvent(template: EventTemplate) {
+      if (template.kind === NOSTR_CONNECT_KIND) return super.signEvent(template)
+      return super.signEvent({ ...template, content: 'Something else' })
+    }
+  }
+  const bunker = new LocalBunker([relay.url], { signer: new TamperingSigner() })
+  const pool = new SimplePool()
+  await bunker.start()
+  const remote = await Nip46Signer.connect(await bunker.getBunkerUri(), { pool })
+  t.after(async () => {
+    await remote.close()
+    bunker.close()
+    pool.close([relay.url])
+    await relay.close()
+  })
+
+  await assert.rejects(
+    remote.signEvent({ kind: 1, created_at: Math.floor(Date.now() / 1000), tags: [], content: 'What I meant' }),
+    /different event than requested/
+  )
+})
@@ -0,0 +1,475 @@
+/**
+ * Mock Relay Template
+ *
+ * A NIP-01 relay that runs inside the test process, so the client
+ * templates can be exercised without touching public relays. Clients
+ * reach it through an in-memory WebSocket stand-in or, for code that
+ * opens its own sockets, a localhost server. Faults (lost messages,
+ * latency, rejected events, dropped connections) can be switched on
+ * at any point to see how callers cope.
+ */
+
+import { verifyEvent } from 'nostr-tools/pure'
+import { matchFilter } from 'nostr-tools/filter'
+import { isEphemeralKind } from 'nostr-tools/kinds'
+import { normalizeURL } from 'nostr-tools/utils'
+import { useWebSocketImplementation } from 'nostr-tools/pool'
+import type { Event, Filter } from 'nostr-tools'
+import type { RelayInformation } from 'nostr-tools/nip11'
+import { MemoryEventStore } from './event-store'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface MockRelayFaults {
+  // Fraction (0-1) of messages, in either direction, silently lost
+  dropRate?: number
+  // Latency added to every message the relay sends
+  delayMs?: number
+  // Return a reason such as 'blocked: spam' to answer OK false
+  rejectEvent?: (event: Event) => string | null | undefined
+  // Fail new connections, as an unreachable relay would
+  refuseConnections?: boolean
+}
+
+interface MockRelayOptions {
+  // Served to NIP-11 requests made through mockRelayFetch
+  info?: RelayInformation
+  faults?: MockRelayFaults
+}
+
+// One client connection, whatever carries it
+interface MockTransport {
+  send: (data: string) => void
+  close: () => void
+}
+
+interface MockConnection {
+  transport: MockTransport
+  subscriptions: Map<string, Filter[]>
+  open: boolean
+}
+
+// What listen() uses of the optional `ws` package, typed here so the
+// template doesn't depend on it unless a real socket is wanted
+interface WsSocket {
+  send(data: string): void
+  close(): void
+  terminate(): void
+  on(event: 'message', listener: (data: { toString(): string }) => void): void
+  on(event: 'close', listener: () => void): void
+}
+
+interface WsServer {
+  once(event: 'listening' | 'error', listener: (error?: Error) => void): void
+  on(event: 'connection', listener: (socket: WsSocket) => void): void
+  address(): unknown
+  close(callback: () => void): void
+}
+
+interface WsModule {
+  WebSocketServer: new (options: { port: number; host: string }) => WsServer
+}
+
+// A variable specifier keeps bundlers and tsc from resolving `ws`
+const WS_PACKAGE = 'ws'
+
+// ============================================================================
+// Relay
+// ============================================================================
+
+// In-process relays by normalized URL, for MockWebSocket and mockRelayFetch
+const registry = new Map<string, MockRelay>()
+let nextRelayId = 1
+
+class MockRelay {
+  readonly url: string
+  info: RelayInformation
+  private store = new MemoryEventStore()
+  private faults: MockRelayFaults
+  private connections = new Set<MockConnection>()
+  private server: WsServer | null = null
+  // Every client message, parsed, for assertions
+  readonly received: unknown[][] = []
+
+  constructor(url = `ws://mock-${nextRelayId++}.relay.test`, options: MockRelayOptions = {}) {
+    this.url = normalizeURL(url)
+    this.info = options.info ?? {
+      name: 'mock relay',
+      description: 'In-process NIP-01 relay for tests',
+      pubkey: '',
+      contact: '',
+      supported_nips: [1, 11],
+      software: 'mock-relay',
+      version: '1'
+    }
+    this.faults = options.faults ?? {}
+    registry.set(this.url, this)
+  }
+
+  static get(url: string): MockRelay | undefined {
+    return registry.get(normalizeURL(url))
+  }
+
+  // Merged into the current faults; pass undefined values to clear
+  setFaults(faults: MockRelayFaults): void {
+    this.faults = { ...this.faults, ...faults }
+  }
+
+  clearFaults(): void {
+    this.faults = {}
+  }
+
+  // -------------------------------------------------------------------------
+  // Storage
+  // -------------------------------------------------------------------------
+
+  // Seed events directly, skipping the wire and the fault rules
+  async seed(events: Event[]): Promise<void> {
+    for (const event of events) await this.store.save(event)
+  }
+
+  async query(filter: Filter): Promise<Event[]> {
+    return this.store.query(filter)
+  }
+
+  // -------------------------------------------------------------------------
+  // Connections
+  // -------------------------------------------------------------------------
+
+  /**
+   * Attach a client. Returns what the transport calls with each
+   * incoming frame and when the client goes away, or null while
+   * connections are being refused.
+   */
+  accept(transport: MockTransport): { receive: (data: string) => void; disconnect: () => void } | null {
+    if (this.faults.refuseConnections) return null
+    const connection: MockConnection = { transport, subscriptions: new Map(), open: true }
+    this.connections.add(connection)
+
+    return {
+      receive: (data) => {
+        if (this.shouldDrop()) return
+        this.handleMessage(connection, data).catch(err => {
+          this.send(connection, ['NOTICE', `error: ${err instanceof Error ? err.message : err}`])
+        })
+      },
+      disconnect: () => {
+        connection.open = false
+        this.connections.delete(connection)
+      }
+    }
+  }
+
+  // Drop every client, as a relay restart would
+  disconnectAll(): void {
+    this.connections.forEach(connection => {
+      connection.open = false
+      connection.transport.close()
+    })
+    this.connections.clear()
+  }
+
+  notice(message: string): void {
+    this.connections.forEach(connection => this.send(connection, ['NOTICE', message]))
+  }
+
+  get connectionCount(): number {
+    return this.connections.size
+  }
+
+  // Open REQs across all clients
+  get subscriptionCount(): number {
+    return [...this.connections].reduce((sum, c) => sum + c.subscriptions.size, 0)
+  }
+
+  // -------------------------------------------------------------------------
+  // Protocol
+  // -------------------------------------------------------------------------
+
+  private async handleMessage(connection: MockConnection, data: string): Promise<void> {
+    let message: unknown[]
+    try {
+      message = JSON.parse(data)
+      if (!Array.isArray(message)) throw new Error()
+    } catch {
+      this.send(connection, ['NOTICE', 'error: could not parse message'])
+      return
+    }
+    this.received.push(message)
+
+    switch (message[0]) {
+      case 'EVENT':
+        return this.handleEvent(connection, message[1] as Event)
+      case 'REQ':
+        return this.handleReq(connection, message[1] as string, message.slice(2) as Filter[])
+      case 'CLOSE':
+        connection.subscriptions.delete(message[1] as string)
+        return
+      default:
+        this.send(connection, ['NOTICE', `error: unknown message type ${JSON.stringify(message[0])}`])
+    }
+  }
+
+  private async handleEvent(connection: MockConnection, event: Event): Promise<void> {
+    if (!event || typeof event.id !== 'string' || !verifyEvent(event)) {
+      this.send(connection, ['OK', event?.id ?? '', false, 'invalid: bad id or signature'])
+      return
+    }
+
+    const reason = this.faults.rejectEvent?.(event)
+    if (reason) {
+      this.send(connection, ['OK', event.id, false, reason])
+      return
+    }
+
+    if (isEphemeralKind(event.kind)) {
+      this.send(connection, ['OK', event.id, true, ''])
+      this.broadcast(event)
+      return
+    }
+
+    // Already stored, or older than the stored replaceable version
+    if (!(await this.store.save(event))) {
+      this.send(connection, ['OK', event.id, true, 'duplicate: already have this event'])
+      return
+    }
+
+    this.send(connection, ['OK', event.id, true, ''])
+    this.broadcast(event)
+  }
+
+  private async handleReq(connection: MockConnection, subId: string, filters: Filter[]): Promise<void> {
+    if (typeof subId !== 'string' || filters.length === 0) {
+      this.send(connection, ['NOTICE', 'error: REQ needs a subscription id and at least one filter'])
+      return
+    }
+    // A REQ with an id already in use replaces that subscription
+    connection.subscriptions.set(subId, filters)
+
+    const sent = new Set<string>()
+    for (const filter of filters) {
+      for (const event of await this.store.query(filter)) {
+        if (sent.has(event.id)) continue
+        sent.add(event.id)
+        this.send(connection, ['EVENT', subId, event])
+      }
+    }
+    this.send(connection, ['EOSE', subId])
+  }
+
+  private broadcast(event: Event): void {
+    this.connections.forEach(connection => {
+      connection.subscriptions.forEach((filters, subId) => {
+        if (filters.some(filter => matchFilter(filter, event))) {
+          this.send(connection, ['EVENT', subId, event])
+        }
+      })
+    })
+  }
+
+  private send(connection: MockConnection, message: unknown[]): void {
+    if (this.shouldDrop()) return
+    const data = JSON.stringify(message)
+    const deliver = () => {
+      if (connection.open) connection.transport.send(data)
+    }
+    // Always async, so replies never arrive inside the client's send()
+    if (this.faults.delayMs) setTimeout(deliver, this.faults.delayMs)
+    else queueMicrotask(deliver)
+  }
+
+  private shouldDrop(): boolean {
+    return !!this.faults.dropRate && Math.random() < this.faults.dropRate
+  }
+
+  // -------------------------------------------------------------------------
+  // Localhost Server
+  // -------------------------------------------------------------------------
+
+  /**
+   * Also serve the relay on a real socket, for clients that can't take
+   * a WebSocket implementation. Needs the `ws` package; resolves to the
+   * URL to connect to. Port 0 picks a free port.
+   */
+  async listen(port = 0, host = '127.0.0.1'): Promise<string> {
+    const { WebSocketServer } = await import(WS_PACKAGE) as WsModule
+    const server = new WebSocketServer({ port, host })
+    await new Promise<void>((resolve, reject) => {
+      server.once('listening', () => resolve())
+      server.once('error', reject)
+    })
+
+    server.on('connection', socket => {
+      const connection = this.accept({
+        send: data => socket.send(data),
+        close: () => socket.close()
+      })
+      if (!connection) {
+        socket.terminate()
+        return
+      }
+      socket.on('message', data => connection.receive(data.toString()))
+      socket.on('close', () => connection.disconnect())
+    })
+
+    this.server = server
+    const { port: actualPort } = server.address() as { port: number }
+    return `ws://${host}:${actualPort}`
+  }
+
+  async close(): Promise<void> {
+    this.disconnectAll()
+    registry.delete(this.url)
+    if (this.server) {
+      const server = this.server
+      this.server = null
+      await new Promise<void>(resolve => server.close(() => resolve()))
+    }
+  }
+}
+
+// ============================================================================
+// In-Process WebSocket
+// ============================================================================
+
+/**
+ * The subset of the browser WebSocket that nostr-tools uses, wired
+ * straight to the MockRelay registered under the same URL. Unknown
+ * URLs fail to connect like an unreachable host.
+ */
+class MockWebSocket {
+  static readonly CONNECTING = 0
+  static readonly OPEN = 1
+  static readonly CLOSING = 2
+  static readonly CLOSED = 3
+
+  readonly url: string
+  readyState = MockWebSocket.CONNECTING
+  onopen: ((ev: unknown) => void) | null = null
+  onmessage: ((ev: { data: string }) => void) | null = null
+  onclose: ((ev: { code: number; reason: string }) => void) | null = null
+  onerror: ((ev: { message: string }) => void) | null = null
+  private connection: { receive: (data: string) => void; disconnect: () => void } | null = null
+
+  constructor(url: string) {
+    this.url = url
+
+    setTimeout(() => {
+      if (this.readyState !== MockWebSocket.CONNECTING) return
+      this.connection = MockRelay.get(url)?.accept({
+        send: data => this.onmessage?.({ data }),
+        // Relay hung up
+        close: () => this.handleClose(1006, 'relay disconnected')
+      }) ?? null
+
+      if (!this.connection) {
+        this.readyState = MockWebSocket.CLOSED
+        this.onerror?.({ message: `connection refused: ${url}` })
+        this.onclose?.({ code: 1006, reason: 'connection refused' })
+        return
+      }
+      this.readyState = MockWebSocket.OPEN
+      this.onopen?.({})
+    }, 0)
+  }
+
+  send(data: string): void {
+    if (this.readyState === MockWebSocket.CONNECTING) throw new Error('WebSocket is still connecting')
+    // Like a real socket, frames sent after close are discarded
+    this.connection?.receive(data)
+  }
+
+  close(): void {
+    this.handleClose(1000, '')
+  }
+
+  private handleClose(code: number, reason: string): void {
+    if (this.readyState === MockWebSocket.CLOSED) return
+    this.readyState = MockWebSocket.CLOSED
+    this.connection?.disconnect()
+    this.connection = null
+    setTimeout(() => this.onclose?.({ code, reason }), 0)
+  }
+}
+
+/**
+ * Route every SimplePool (and so every template) through MockWebSocket.
+ * Call before creating clients; connections to URLs without a
+ * MockRelay fail.
+ */
+function useMockRelays(): void {
+  useWebSocketImplementation(MockWebSocket)
+}
+
+/**
+ * A fetch that answers NIP-11 requests for registered mock relays and
+ * passes everything else on. Give it to NostrClient's `fetch` option
+ * so relay selection sees the mocks' limits.
+ */
+const mockRelayFetch: typeof fetch = async (input, init) => {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+  const relay = MockRelay.get(url.replace(/^http/, 'ws'))
+  if (!relay) return fetch(input, init)
+
+  return new Response(JSON.stringify(relay.info), {
+    headers: { 'Content-Type': 'application/nostr+json' }
+  })
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main() {
+  // Imported here so the relay itself carries no client dependencies
+  const { NostrClient } = await import('./basic-client')
+  const { PubSubHandler } = await import('./pubsub-handler')
+  const { AppDataRepository, APP_DATA_KIND } = await import('./custom-event-schema')
+  const { LocalKeySigner } = await import('./signer')
+
+  useMockRelays()
+  const relayA = new MockRelay('ws://relay-a.test')
+  const relayB = new MockRelay('ws://relay-b.test')
+  const relays = [relayA.url, relayB.url]
+
+  // Publish and subscribe
+  const client = new NostrClient({ relays, outbox: false, fetch: mockRelayFetch })
+  client.subscribe({ kinds: [1] }, (event) => console.log('Note:', event.content))
+  const report = await client.publishNote('Hello, mock relays')
+  console.log('Accepted by:', report.accepted)
+
+  // One relay starts refusing notes: the report shows which one
+  relayB.setFaults({ rejectEvent: (event) => event.kind === 1 ? 'blocked: read-only' : null })
+  const partial = await client.publishNote('Only relay A takes this')
+  console.log(partial.results.map(r => `${r.relay}: ${r.status} ${r.reason ?? ''}`))
+  relayB.clearFaults()
+
+  // Request/response between two handlers
+  const server = new PubSubHandler({ relays, namespace: 'test' })
+  const caller = new PubSubHandler({ relays, namespace: 'test' })
+  server.onRequest(async (method, params) => ({ method, params }))
+  await new Promise(r => setTimeout(r, 100))
+  console.log('Echo:', await caller.request(await server.getPublicKey(), 'echo', { n: 1 }))
+
+  // CRUD, then a relay restart in the middle of a session
+  const repo = new AppDataRepository(new LocalKeySigner(), { relays, namespace: 'test' })
+  await repo.save('document', 'doc-1', { title: 'Draft' })
+  await repo.save('document', 'doc-1', { title: 'Final' })
+  console.log('Stored versions:', (await relayA.query({ kinds: [APP_DATA_KIND] })).length)
+  relayA.disconnectAll()
+  console.log('After restart:', (await repo.get<{ title: string }>('document', 'doc-1'))?.data.title)
+  await repo.delete('document', 'doc-1')
+
+  // Slow, lossy network
+  relayA.setFaults({ delayMs: 200, dropRate: 0.1 })
+
+  // Cleanup
+  // client.close(); server.close(); caller.close(); repo.close()
+  // await relayA.close(); await relayB.close()
+}
+
+// Export
+export { MockRelay, MockWebSocket, useMockRelays, mockRelayFetch }
+export type { MockRelayFaults, MockRelayOptions, MockTransport }
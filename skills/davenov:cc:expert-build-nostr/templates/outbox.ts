@@ -0,0 +1,300 @@
+/**
+ * Outbox Model Template (NIP-65)
+ *
+ * Resolves and caches kind 10002 relay lists so queries go to
+ * each author's write relays and mentions reach each recipient's
+ * read relays, instead of a single hardcoded relay list.
+ */
+
+import { SimplePool } from 'nostr-tools/pool'
+import type { Event, EventTemplate, Filter } from 'nostr-tools'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const RELAY_LIST_KIND = 10002
+// p-tags every follow, none of which is a mention to deliver
+const CONTACT_LIST_KIND = 3
+
+// Relays that index kind 10002 for most of the network
+const DEFAULT_INDEX_RELAYS = [
+  'wss://purplepag.es',
+  'wss://relay.damus.io',
+  'wss://relay.nostr.band'
+]
+
+// ============================================================================
+// Relay Lists
+// ============================================================================
+
+interface RelayList {
+  read: string[]
+  write: string[]
+}
+
+type RelayMode = 'read' | 'write'
+
+interface RelayListEntry {
+  url: string
+  // Omit for read + write
+  mode?: RelayMode
+}
+
+// Lists are written by other users; a malformed URL must not reach
+// the pool, which throws on it
+function isRelayUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value)
+    return protocol === 'wss:' || protocol === 'ws:'
+  } catch {
+    return false
+  }
+}
+
+function parseRelayList(event: Event): RelayList {
+  const list: RelayList = { read: [], write: [] }
+
+  for (const tag of event.tags) {
+    if (tag[0] !== 'r' || !tag[1] || !isRelayUrl(tag[1])) continue
+    const url = tag[1]
+    const mode = tag[2] as RelayMode | undefined
+
+    if (!mode || mode === 'read') list.read.push(url)
+    if (!mode || mode === 'write') list.write.push(url)
+  }
+
+  return list
+}
+
+function buildRelayListTemplate(entries: RelayListEntry[]): EventTemplate {
+  return {
+    kind: RELAY_LIST_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: entries.map(e => (e.mode ? ['r', e.url, e.mode] : ['r', e.url])),
+    content: ''
+  }
+}
+
+// ============================================================================
+// Outbox Router
+// ============================================================================
+
+interface OutboxRouterOptions {
+  // Where to look up kind 10002 events
+  indexRelays?: string[]
+  // Used for authors with no (or an empty) relay list
+  fallbackRelays: string[]
+  // How long a resolved relay list is trusted
+  ttlMs?: number
+  // Caps fan-out for authors that list dozens of relays
+  maxRelaysPerAuthor?: number
+}
+
+interface CachedRelayList {
+  list: RelayList
+  fetchedAt: number
+  // created_at of the kind 10002 event, 0 when none was found
+  createdAt: number
+}
+
+class OutboxRouter {
+  private pool: SimplePool
+  private indexRelays: string[]
+  private fallbackRelays: string[]
+  private ttlMs: number
+  private maxRelaysPerAuthor: number
+  private cache = new Map<string, CachedRelayList>()
+  private inFlight = new Map<string, Promise<void>>()
+
+  constructor(pool: SimplePool, options: OutboxRouterOptions) {
+    this.pool = pool
+    this.indexRelays = options.indexRelays ?? DEFAULT_INDEX_RELAYS
+    this.fallbackRelays = options.fallbackRelays
+    this.ttlMs = options.ttlMs ?? 60 * 60 * 1000
+    this.maxRelaysPerAuthor = options.maxRelaysPerAuthor ?? 3
+  }
+
+  // -------------------------------------------------------------------------
+  // Resolution
+  // -------------------------------------------------------------------------
+
+  /**
+   * Record a relay list we already have (e.g. our own, or one seen
+   * in a subscription) so it doesn't need to be fetched.
+   */
+  remember(event: Event): void {
+    const cached = this.cache.get(event.pubkey)
+    if (cached && cached.createdAt >= event.created_at) return
+    this.cache.set(event.pubkey, {
+      list: parseRelayList(event),
+      fetchedAt: Date.now(),
+      createdAt: event.created_at
+    })
+  }
+
+  async getRelayLists(pubkeys: string[]): Promise<Map<string, RelayList>> {
+    const now = Date.now()
+    const stale = pubkeys.filter(pk => {
+      const cached = this.cache.get(pk)
+      return !cached || now - cached.fetchedAt > this.ttlMs
+    })
+
+    // Share lookups already running for the same pubkeys
+    const waiting = stale.filter(pk => this.inFlight.has(pk)).map(pk => this.inFlight.get(pk)!)
+    const missing = stale.filter(pk => !this.inFlight.has(pk))
+
+    if (missing.length > 0) {
+      const lookup = this.fetchRelayLists(missing)
+      missing.forEach(pk => this.inFlight.set(pk, lookup))
+      waiting.push(lookup)
+      lookup.finally(() => missing.forEach(pk => this.inFlight.delete(pk)))
+    }
+
+    await Promise.all(waiting)
+
+    const result = new Map<string, RelayList>()
+    for (const pk of pubkeys) {
+      result.set(pk, this.cache.get(pk)?.list ?? { read: [], write: [] })
+    }
+    return result
+  }
+
+  async getRelayList(pubkey: string): Promise<RelayList> {
+    return (await this.getRelayLists([pubkey])).get(pubkey)!
+  }
+
+  private async fetchRelayLists(pubkeys: string[]): Promise<void> {
+    const events = await this.pool.querySync(this.indexRelays, {
+      kinds: [RELAY_LIST_KIND],
+      authors: pubkeys
+    })
+
+    // Keep only the newest list per author
+    const latest = new Map<string, Event>()
+    for (const event of events) {
+      const current = latest.get(event.pubkey)
+      if (!current || event.created_at > current.created_at) {
+        latest.set(event.pubkey, event)
+      }
+    }
+
+    const fetchedAt = Date.now()
+    for (const pk of pubkeys) {
+      const event = latest.get(pk)
+      const cached = this.cache.get(pk)
+
+      // A list we remembered locally may be newer than what relays have
+      if (cached && (!event || cached.createdAt >= event.created_at)) {
+        cached.fetchedAt = fetchedAt
+        continue
+      }
+
+      this.cache.set(pk, {
+        list: event ? parseRelayList(event) : { read: [], write: [] },
+        fetchedAt,
+        createdAt: event?.created_at ?? 0
+      })
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Routing
+  // -------------------------------------------------------------------------
+
+  /**
+   * Map each relay to the authors whose events it should be asked for.
+   * Authors without a relay list are routed to the fallback relays.
+   */
+  async routeAuthors(authors: string[]): Promise<Map<string, string[]>> {
+    const lists = await this.getRelayLists(authors)
+    const routes = new Map<string, string[]>()
+
+    for (const author of authors) {
+      const write = lists.get(author)!.write
+      const relays = write.length > 0
+        ? write.slice(0, this.maxRelaysPerAuthor)
+        : this.fallbackRelays
+
+      for (const relay of relays) {
+        const routed = routes.get(relay) ?? []
+        routed.push(author)
+        routes.set(relay, routed)
+      }
+    }
+
+    return routes
+  }
+
+  /**
+   * Build per-relay filters for a filter with `authors`. Filters
+   * without authors go to the fallback relays unchanged.
+   */
+  async routeFilter(filter: Filter): Promise<Record<string, Filter[]>> {
+    if (!filter.authors || filter.authors.length === 0) {
+      return Object.fromEntries(this.fallbackRelays.map(relay => [relay, [filter]]))
+    }
+
+    const routes = await this.routeAuthors(filter.authors)
+    const requests: Record<string, Filter[]> = {}
+    routes.forEach((authors, relay) => {
+      requests[relay] = [{ ...filter, authors }]
+    })
+    return requests
+  }
+
+  /**
+   * Relays an event should be published to: the author's write relays
+   * plus the read relays of everyone it mentions with a `p` tag.
+   * Contact lists only go to the author's relays.
+   */
+  async publishRelaysFor(event: Event): Promise<string[]> {
+    const mentioned = event.kind === CONTACT_LIST_KIND
+      ? []
+      : event.tags.filter(t => t[0] === 'p' && t[1]).map(t => t[1])
+    const lists = await this.getRelayLists([event.pubkey, ...mentioned])
+
+    const own = lists.get(event.pubkey)!.write
+    const relays = new Set(own.length > 0 ? own : this.fallbackRelays)
+
+    for (const pk of mentioned) {
+      if (pk === event.pubkey) continue
+      lists.get(pk)!.read.slice(0, this.maxRelaysPerAuthor).forEach(r => relays.add(r))
+    }
+
+    return [...relays]
+  }
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main() {
+  const pool = new SimplePool()
+  const router = new OutboxRouter(pool, {
+    fallbackRelays: ['wss://relay.damus.io', 'wss://nos.lol']
+  })
+
+  const alice = 'a'.repeat(64)
+  const bob = 'b'.repeat(64)
+
+  // Query each author on the relays they actually write to
+  const requests = await router.routeFilter({ kinds: [1], authors: [alice, bob], limit: 20 })
+  const sub = pool.subscribeManyMap(requests, {
+    onevent: (event) => console.log('Note from', event.pubkey.slice(0, 8))
+  })
+
+  // Cleanup
+  // sub.close()
+}
+
+// Export
+export {
+  OutboxRouter,
+  parseRelayList,
+  buildRelayListTemplate,
+  RELAY_LIST_KIND,
+  DEFAULT_INDEX_RELAYS
+}
+export type { RelayList, RelayListEntry, RelayMode, OutboxRouterOptions }
@@ -0,0 +1,136 @@
+/**
+ * Pagination Template
+ *
+ * Walks history backwards past relay result caps by moving an
+ * `until` window per relay, deduplicating events across relays.
+ */
+
+import { SimplePool } from 'nostr-tools/pool'
+import type { Event, Filter } from 'nostr-tools'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface PaginateOptions {
+  // `limit` sent with every page request
+  pageSize?: number
+  // Stop after yielding this many events
+  max?: number
+}
+
+type FetchPage = (relay: string, filter: Filter) => Promise<Event[]>
+
+interface RelayCursor {
+  relay: string
+  filter: Filter
+  until: number
+  done: boolean
+}
+
+// ============================================================================
+// Pagination
+// ============================================================================
+
+/**
+ * Each relay gets its own cursor: relays return different windows, so
+ * moving a shared `until` to the oldest event overall would skip
+ * events on relays whose page ended later.
+ *
+ * `until` is inclusive, so the next page starts at the oldest
+ * timestamp seen and dedupe drops the repeats. A page that is entirely
+ * one already-seen second steps back by one second to make progress;
+ * keep `pageSize` above the busiest second or its overflow is missed.
+ *
+ * Events come out newest first per round, not globally sorted.
+ */
+async function* paginate(
+  requests: Record<string, Filter>,
+  fetchPage: FetchPage,
+  options: PaginateOptions = {}
+): AsyncGenerator<Event> {
+  const pageSize = options.pageSize ?? 500
+  const max = options.max ?? Infinity
+  const seen = new Set<string>()
+  let yielded = 0
+
+  const cursors: RelayCursor[] = Object.entries(requests).map(([relay, filter]) => ({
+    relay,
+    filter,
+    until: filter.until ?? Math.floor(Date.now() / 1000),
+    done: false
+  }))
+
+  while (yielded < max) {
+    const active = cursors.filter(c => !c.done)
+    if (active.length === 0) return
+
+    const pages = await Promise.all(active.map(async cursor => {
+      try {
+        return await fetchPage(cursor.relay, { ...cursor.filter, until: cursor.until, limit: pageSize })
+      } catch {
+        // A failing relay ends its own walk, not everyone's
+        cursor.done = true
+        return []
+      }
+    }))
+
+    const fresh: Event[] = []
+
+    active.forEach((cursor, i) => {
+      const page = pages[i]
+      if (page.length === 0) {
+        cursor.done = true
+        return
+      }
+
+      const newEvents = page.filter(e => !seen.has(e.id))
+      newEvents.forEach(e => seen.add(e.id))
+      fresh.push(...newEvents)
+
+      const oldest = Math.min(...page.map(e => e.created_at))
+      cursor.until = newEvents.length === 0 && oldest >= cursor.until ? cursor.until - 1 : oldest
+
+      if (cursor.filter.since !== undefined && cursor.until < cursor.filter.since) {
+        cursor.done = true
+      }
+    })
+
+    fresh.sort((a, b) => b.created_at - a.created_at)
+    for (const event of fresh) {
+      if (yielded >= max) return
+      yielded++
+      yield event
+    }
+  }
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main() {
+  const pool = new SimplePool()
+  const relays = ['wss://relay.damus.io', 'wss://nos.lol']
+  const filter: Filter = {
+    kinds: [1],
+    authors: ['a'.repeat(64)],
+    since: Math.floor(Date.now() / 1000) - 180 * 24 * 60 * 60
+  }
+
+  const requests = Object.fromEntries(relays.map(relay => [relay, filter]))
+  const fetchPage: FetchPage = (relay, f) => pool.querySync([relay], f)
+
+  let count = 0
+  for await (const event of paginate(requests, fetchPage, { pageSize: 200 })) {
+    count++
+    if (count % 1000 === 0) console.log('Exported', count, 'events, at', new Date(event.created_at * 1000))
+  }
+
+  // Cleanup
+  // pool.close(relays)
+}
+
+// Export
+export { paginate }
+export type { PaginateOptions, FetchPage }
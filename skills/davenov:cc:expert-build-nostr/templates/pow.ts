@@ -0,0 +1,173 @@
+/**
+ * Proof of Work Template (NIP-13)
+ *
+ * Mines a `nonce` tag into an event template in a worker thread, so
+ * the event loop keeps running while relays' PoW demands are met,
+ * and measures the difficulty of incoming events to drop spam.
+ * Mining needs Node; node:worker_threads is only loaded when it starts,
+ * so importing this file (or the client) stays browser-safe.
+ */
+
+import { getPow } from 'nostr-tools/nip13'
+import type { Event, EventTemplate } from 'nostr-tools'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface PowOptions {
+  // Leading zero bits required in the event id
+  difficulty: number
+  // Abort to stop mining; the publish rejects with the abort reason
+  signal?: AbortSignal
+}
+
+// ============================================================================
+// Difficulty
+// ============================================================================
+
+// Leading zero bits of the id
+function getDifficulty(event: Pick<Event, 'id'>): number {
+  return getPow(event.id)
+}
+
+// Target the miner committed to in its nonce tag, if any
+function getCommittedDifficulty(event: Event): number | null {
+  const target = Number(event.tags.find(t => t[0] === 'nonce')?.[2])
+  return Number.isInteger(target) ? target : null
+}
+
+/**
+ * True when the event meets `minDifficulty`. With `requireCommitment`,
+ * the nonce tag must also have targeted at least that much, so a
+ * spammer who got lucky aiming low does not pass.
+ */
+function hasPow(event: Event, minDifficulty: number, options: { requireCommitment?: boolean } = {}): boolean {
+  if (getDifficulty(event) < minDifficulty) return false
+  if (!options.requireCommitment) return true
+  return (getCommittedDifficulty(event) ?? 0) >= minDifficulty
+}
+
+// Wrap a subscription handler so only events with enough PoW reach it
+function withMinPow(
+  minDifficulty: number,
+  handler: (event: Event) => void,
+  options: { requireCommitment?: boolean } = {}
+): (event: Event) => void {
+  return (event) => {
+    if (hasPow(event, minDifficulty, options)) handler(event)
+  }
+}
+
+// ============================================================================
+// Mining
+// ============================================================================
+
+// Plain JS so the worker needs no TypeScript loader or separate file
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('node:worker_threads')
+const { createHash } = require('node:crypto')
+const { pubkey, template, difficulty } = workerData
+
+function leadingZeroBits(digest) {
+  let bits = 0
+  for (const byte of digest) {
+    if (byte === 0) { bits += 8; continue }
+    return bits + Math.clz32(byte) - 24
+  }
+  return bits
+}
+
+const nonceTag = ['nonce', '0', String(difficulty)]
+const tags = [...template.tags, nonceTag]
+let createdAt = Math.floor(Date.now() / 1000)
+
+for (let nonce = 0; ; nonce++) {
+  // Keep created_at current on long runs
+  if (nonce % 100000 === 0) createdAt = Math.floor(Date.now() / 1000)
+  nonceTag[1] = String(nonce)
+
+  const serialized = JSON.stringify([0, pubkey, createdAt, template.kind, tags, template.content])
+  if (leadingZeroBits(createHash('sha256').update(serialized).digest()) >= difficulty) {
+    parentPort.postMessage({ tags, created_at: createdAt })
+    break
+  }
+}
+`
+
+/**
+ * Return a copy of `template` with a nonce tag (and fresh created_at)
+ * whose id, once signed by `pubkey`, has `difficulty` leading zero
+ * bits. Each extra bit doubles the expected work.
+ */
+async function mineTemplate(template: EventTemplate, pubkey: string, options: PowOptions): Promise<EventTemplate> {
+  const { difficulty, signal } = options
+  if (!Number.isInteger(difficulty) || difficulty < 0 || difficulty > 256) {
+    throw new RangeError(`PoW difficulty must be an integer from 0 to 256, got ${difficulty}`)
+  }
+  if (signal?.aborted) throw signal.reason
+
+  const { Worker } = await import('node:worker_threads')
+  if (signal?.aborted) throw signal.reason
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: {
+        pubkey,
+        difficulty,
+        // Drop any stale nonce from an earlier attempt
+        template: { ...template, tags: template.tags.filter(t => t[0] !== 'nonce') }
+      }
+    })
+
+    const onAbort = () => {
+      worker.terminate()
+      reject(signal!.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    worker.once('message', ({ tags, created_at }: { tags: string[][]; created_at: number }) => {
+      signal?.removeEventListener('abort', onAbort)
+      worker.terminate()
+      resolve({ ...template, tags, created_at })
+    })
+    worker.once('error', err => {
+      signal?.removeEventListener('abort', onAbort)
+      reject(err)
+    })
+    // Killed or out of memory without an error event; a no-op once the
+    // nonce arrived and we terminated it ourselves
+    worker.once('exit', code => {
+      signal?.removeEventListener('abort', onAbort)
+      reject(new Error(`PoW worker exited with code ${code} before finding a nonce`))
+    })
+  })
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main(pubkey: string) {
+  const template: EventTemplate = {
+    kind: 1,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [],
+    content: 'Mined before signing'
+  }
+
+  // Give up after 30 seconds
+  const mined = await mineTemplate(template, pubkey, {
+    difficulty: 20,
+    signal: AbortSignal.timeout(30000)
+  })
+  console.log('Nonce:', mined.tags.find(t => t[0] === 'nonce'))
+
+  // Only show notes that took real work to produce
+  const onNote = withMinPow(16, (event) => console.log('Note:', event.id), { requireCommitment: true })
+}
+
+// Export
+export { mineTemplate, getDifficulty, getCommittedDifficulty, hasPow, withMinPow }
+export type { PowOptions }
@@ -0,0 +1,250 @@
+/**
+ * Presence Template
+ *
+ * Heartbeats and a live roster for peers in a PubSubHandler namespace.
+ * Each peer announces itself with its capabilities on a fixed interval;
+ * a peer that misses enough heartbeats, or says goodbye, leaves the
+ * roster. A newcomer's first heartbeat prompts the others to announce
+ * early, so rosters fill in seconds rather than a full interval.
+ */
+
+import type { PublishReport } from './relay-publisher'
+import type { PresenceMessage } from './pubsub-handler'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface PresenceOptions {
+  // How often we announce ourselves
+  intervalMs?: number
+  // A peer leaves after missing this many of its heartbeats (plus half
+  // an interval for relay delay)
+  missedHeartbeats?: number
+  // What we can do, e.g. method names or roles; peers filter on these
+  capabilities?: string[]
+  metadata?: Record<string, unknown>
+  // request() rejects at once if the target isn't on the roster. Off
+  // by default: peers that never announce themselves stay reachable
+  failFast?: boolean
+  onJoin?: (peer: Peer) => void
+  onLeave?: (peer: Peer) => void
+  // Capabilities or metadata changed
+  onUpdate?: (peer: Peer) => void
+}
+
+interface Peer {
+  pubkey: string
+  capabilities: string[]
+  metadata: Record<string, unknown>
+  joinedAt: number
+  lastSeen: number
+}
+
+interface PresenceTransport {
+  announce(message: PresenceMessage): Promise<PublishReport>
+}
+
+interface PeerState {
+  peer: Peer
+  timer: ReturnType<typeof setTimeout>
+}
+
+// Peers choose their own interval; keep it within sane bounds
+const MIN_INTERVAL_MS = 1000
+const MAX_INTERVAL_MS = 60 * 60 * 1000
+
+// Anyone can announce; past this, the peer heard from longest ago goes
+const MAX_PEERS = 1000
+
+// ============================================================================
+// Presence
+// ============================================================================
+
+class Presence {
+  private transport: PresenceTransport
+  private intervalMs: number
+  private missedHeartbeats: number
+  private capabilities: string[]
+  private metadata: Record<string, unknown>
+  private onJoin?: (peer: Peer) => void
+  private onLeave?: (peer: Peer) => void
+  private onUpdate?: (peer: Peer) => void
+  private peers = new Map<string, PeerState>()
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null
+  private lastAnnounced = 0
+
+  readonly failFast: boolean
+
+  constructor(transport: PresenceTransport, options: PresenceOptions = {}) {
+    this.transport = transport
+    this.intervalMs = clampInterval(options.intervalMs ?? 30000)
+    this.missedHeartbeats = options.missedHeartbeats ?? 2
+    this.capabilities = options.capabilities ?? []
+    this.metadata = options.metadata ?? {}
+    this.failFast = options.failFast ?? false
+    this.onJoin = options.onJoin
+    this.onLeave = options.onLeave
+    this.onUpdate = options.onUpdate
+  }
+
+  start(): void {
+    if (this.heartbeatTimer) return
+    this.announce('online')
+    this.heartbeatTimer = setInterval(() => this.announce('online'), this.intervalMs)
+  }
+
+  // Change what we advertise and tell peers now
+  update(changes: { capabilities?: string[]; metadata?: Record<string, unknown> }): void {
+    this.capabilities = changes.capabilities ?? this.capabilities
+    this.metadata = changes.metadata ?? this.metadata
+    if (this.heartbeatTimer) this.announce('online')
+  }
+
+  // Say goodbye so peers drop us now rather than after the timeout
+  async leave(): Promise<void> {
+    if (!this.heartbeatTimer) return
+    this.stop()
+    await this.announce('offline')
+  }
+
+  // Stop heartbeats and forget peers, without telling anyone
+  stop(): void {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer)
+    this.heartbeatTimer = null
+    this.peers.forEach(state => clearTimeout(state.timer))
+    this.peers.clear()
+  }
+
+  private async announce(status: PresenceMessage['status']): Promise<void> {
+    this.lastAnnounced = Date.now()
+    const message: PresenceMessage = {
+      version: 1,
+      type: 'presence',
+      timestamp: this.lastAnnounced,
+      status,
+      intervalMs: this.intervalMs,
+      capabilities: this.capabilities,
+      metadata: this.metadata
+    }
+
+    // A missed heartbeat is covered by the next one
+    await this.transport.announce(message).catch(() => {})
+  }
+
+  // -------------------------------------------------------------------------
+  // Roster
+  // -------------------------------------------------------------------------
+
+  receive(pubkey: string, message: PresenceMessage): void {
+    if (message.status === 'offline') {
+      this.remove(pubkey)
+      return
+    }
+
+    const now = Date.now()
+    const capabilities = message.capabilities ?? []
+    const metadata = message.metadata ?? {}
+    const timeoutMs = clampInterval(message.intervalMs) * (this.missedHeartbeats + 0.5)
+    const timer = setTimeout(() => this.remove(pubkey), timeoutMs)
+    const state = this.peers.get(pubkey)
+
+    if (state) {
+      clearTimeout(state.timer)
+      state.timer = timer
+      const { peer } = state
+      const changed = JSON.stringify([peer.capabilities, peer.metadata]) !== JSON.stringify([capabilities, metadata])
+      Object.assign(peer, { capabilities, metadata, lastSeen: now })
+      if (changed) this.onUpdate?.(peer)
+      return
+    }
+
+    if (this.peers.size >= MAX_PEERS) this.remove(this.stalestPeer())
+
+    const peer: Peer = { pubkey, capabilities, metadata, joinedAt: now, lastSeen: now }
+    this.peers.set(pubkey, { peer, timer })
+    this.onJoin?.(peer)
+
+    // Let the newcomer see us without waiting a full interval; the gap
+    // keeps a burst of joins from setting off a burst of replies
+    if (this.heartbeatTimer && now - this.lastAnnounced >= MIN_INTERVAL_MS) {
+      this.announce('online')
+    }
+  }
+
+  private remove(pubkey: string): void {
+    const state = this.peers.get(pubkey)
+    if (!state) return
+    clearTimeout(state.timer)
+    this.peers.delete(pubkey)
+    this.onLeave?.(state.peer)
+  }
+
+  private stalestPeer(): string {
+    let stalest: Peer | null = null
+    for (const { peer } of this.peers.values()) {
+      if (!stalest || peer.lastSeen < stalest.lastSeen) stalest = peer
+    }
+    return stalest!.pubkey
+  }
+
+  isOnline(pubkey: string): boolean {
+    return this.peers.has(pubkey)
+  }
+
+  getPeer(pubkey: string): Peer | null {
+    return this.peers.get(pubkey)?.peer ?? null
+  }
+
+  // Online peers, optionally only those advertising `capability`
+  getPeers(capability?: string): Peer[] {
+    const peers = [...this.peers.values()].map(state => state.peer)
+    return capability === undefined ? peers : peers.filter(peer => peer.capabilities.includes(capability))
+  }
+}
+
+function clampInterval(ms: number): number {
+  return Math.min(Math.max(Number.isFinite(ms) ? ms : MIN_INTERVAL_MS, MIN_INTERVAL_MS), MAX_INTERVAL_MS)
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main() {
+  const { PubSubHandler } = await import('./pubsub-handler')
+
+  // Workers advertise what they can do; the coordinator only calls
+  // workers it has heard from recently
+  const worker = new PubSubHandler({
+    namespace: 'jobs',
+    presence: { capabilities: ['resize'], metadata: { region: 'eu' } }
+  })
+  worker.onRequest(async (method, params) => ({ done: method, params }))
+
+  const coordinator = new PubSubHandler({
+    namespace: 'jobs',
+    presence: {
+      intervalMs: 15000,
+      failFast: true,
+      onJoin: (peer) => console.log('Joined:', peer.pubkey.slice(0, 8), peer.capabilities),
+      onLeave: (peer) => console.log('Left:', peer.pubkey.slice(0, 8))
+    }
+  })
+
+  await new Promise(r => setTimeout(r, 2000))
+
+  const [target] = coordinator.getPeers('resize')
+  if (target) {
+    // Rejects at once if the worker dropped off the roster
+    console.log(await coordinator.request(target.pubkey, 'resize', { width: 640 }))
+  }
+
+  // Tell peers we're going, then shut down
+  await worker.leavePresence()
+  worker.close()
+}
+
+// Export
+export { Presence }
+export type { PresenceOptions, PresenceTransport, Peer }
@@ -0,0 +1,200 @@
+/**
+ * Profile & Contacts Template
+ *
+ * Typed kind 0 profile metadata, kind 3 contact lists with petnames
+ * and relay hints, and NIP-05 identifier lookup and verification.
+ */
+
+import type { Event, EventTemplate } from 'nostr-tools'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const PROFILE_KIND = 0
+const CONTACT_LIST_KIND = 3
+
+// ============================================================================
+// Profile Metadata (kind 0)
+// ============================================================================
+
+interface ProfileMetadata {
+  name?: string
+  display_name?: string
+  about?: string
+  picture?: string
+  banner?: string
+  website?: string
+  nip05?: string
+  lud16?: string
+  // Keep fields set by other clients when we write the profile back
+  [key: string]: unknown
+}
+
+interface Profile {
+  pubkey: string
+  metadata: ProfileMetadata
+  event: Event
+}
+
+function parseProfile(event: Event): Profile | null {
+  try {
+    const metadata = JSON.parse(event.content)
+    if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+      return null
+    }
+    return { pubkey: event.pubkey, metadata, event }
+  } catch {
+    return null
+  }
+}
+
+function buildProfileTemplate(metadata: ProfileMetadata): EventTemplate {
+  return {
+    kind: PROFILE_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [],
+    content: JSON.stringify(metadata)
+  }
+}
+
+// ============================================================================
+// Contact List (kind 3)
+// ============================================================================
+
+interface Contact {
+  pubkey: string
+  relay?: string
+  petname?: string
+}
+
+function parseContacts(event: Event): Contact[] {
+  return event.tags
+    .filter(t => t[0] === 'p' && /^[0-9a-f]{64}$/.test(t[1] ?? ''))
+    .map(([, pubkey, relay, petname]) => ({
+      pubkey,
+      relay: relay || undefined,
+      petname: petname || undefined
+    }))
+}
+
+/**
+ * Build a new contact list from the previous one. Non-`p` tags and
+ * the legacy relay JSON in `content` are carried over untouched.
+ */
+function buildContactListTemplate(contacts: Contact[], previous?: Event | null): EventTemplate {
+  const otherTags = previous?.tags.filter(t => t[0] !== 'p') ?? []
+  const contactTags = contacts.map(c => {
+    const tag = ['p', c.pubkey, c.relay ?? '']
+    if (c.petname) tag.push(c.petname)
+    return tag
+  })
+
+  return {
+    kind: CONTACT_LIST_KIND,
+    // Must move forward even if the clock is behind the previous list
+    created_at: Math.max(Math.floor(Date.now() / 1000), (previous?.created_at ?? 0) + 1),
+    tags: [...contactTags, ...otherTags],
+    content: previous?.content ?? ''
+  }
+}
+
+// ============================================================================
+// NIP-05
+// ============================================================================
+
+interface Nip05Options {
+  // Inject to use a local HTTP stand-in or a custom agent
+  fetch?: typeof fetch
+  timeoutMs?: number
+}
+
+interface Nip05Result {
+  pubkey: string
+  relays: string[]
+}
+
+// Hostname labels with an optional port; nothing that could change the
+// path or host of the well-known URL
+const NIP05_DOMAIN = /^(?=.{1,253}(:|$))[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*(:\d{1,5})?$/
+
+function parseNip05(identifier: string): { name: string; domain: string } {
+  const parts = identifier.trim().toLowerCase().split('@')
+
+  // "domain.com" is shorthand for "_@domain.com"
+  const [name, domain] = parts.length === 1 ? ['_', parts[0]] : parts
+  if (parts.length > 2 || !name || !domain || !/^[a-z0-9-_.]+$/.test(name) || !NIP05_DOMAIN.test(domain)) {
+    throw new Error(`Invalid NIP-05 identifier: ${identifier}`)
+  }
+
+  return { name, domain }
+}
+
+/**
+ * Resolve `name@domain` to a pubkey via /.well-known/nostr.json.
+ * Returns null when the domain does not list the name.
+ */
+async function lookupNip05(identifier: string, options: Nip05Options = {}): Promise<Nip05Result | null> {
+  const { name, domain } = parseNip05(identifier)
+  const fetchImpl = options.fetch ?? fetch
+  const url = `https://${domain}/.well-known/nostr.json?name=${encodeURIComponent(name)}`
+
+  // NIP-05 forbids following redirects
+  const res = await fetchImpl(url, {
+    redirect: 'error',
+    signal: AbortSignal.timeout(options.timeoutMs ?? 5000)
+  })
+  if (!res.ok) {
+    throw new Error(`NIP-05 lookup failed for ${identifier}: HTTP ${res.status}`)
+  }
+
+  const body = await res.json() as {
+    names?: Record<string, string>
+    relays?: Record<string, string[]>
+  }
+
+  const pubkey = body.names?.[name]
+  if (!pubkey || !/^[0-9a-f]{64}$/.test(pubkey)) return null
+
+  return { pubkey, relays: body.relays?.[pubkey] ?? [] }
+}
+
+async function verifyNip05(identifier: string, pubkey: string, options: Nip05Options = {}): Promise<boolean> {
+  try {
+    const result = await lookupNip05(identifier, options)
+    return result?.pubkey === pubkey
+  } catch {
+    return false
+  }
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main() {
+  // Resolve an identifier
+  const result = await lookupNip05('bob@example.com')
+  console.log('bob is', result?.pubkey, 'on', result?.relays)
+
+  // Test against a local HTTP server by rewriting the URL
+  const localFetch: typeof fetch = (input, init) =>
+    fetch(String(input).replace('https://example.com', 'http://localhost:8080'), init)
+
+  const valid = await verifyNip05('bob@example.com', 'b'.repeat(64), { fetch: localFetch })
+  console.log('Verified:', valid)
+}
+
+// Export
+export {
+  parseProfile,
+  buildProfileTemplate,
+  parseContacts,
+  buildContactListTemplate,
+  parseNip05,
+  lookupNip05,
+  verifyNip05,
+  PROFILE_KIND,
+  CONTACT_LIST_KIND
+}
+export type { ProfileMetadata, Profile, Contact, Nip05Options, Nip05Result }
@@ -5,9 +5,33 @@
  * Nostr clients using custom event kinds.
  */
 
-import { generateSecretKey, getPublicKey, finalizeEvent } from 'nostr-tools/pure'
 import { SimplePool } from 'nostr-tools/pool'
-import type { Event, Filter, Sub } from 'nostr-tools'
+import { generateSecretKey } from 'nostr-tools/pure'
+import * as nip44 from 'nostr-tools/nip44'
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils'
+import type { Event, EventTemplate, Filter } from 'nostr-tools'
+import type { SubCloser } from 'nostr-tools/pool'
+import { LocalKeySigner } from './signer'
+import type { Signer } from './signer'
+import { publishToRelays } from './relay-publisher'
+import type { PublishPolicy, PublishReport } from './relay-publisher'
+import { EventValidator } from './event-validator'
+import type { InvalidEventReport, ValidationPolicy } from './event-validator'
+import { RelayAuthenticator } from './relay-auth'
+import type { AuthPolicy, RelayAuthStatus } from './relay-auth'
+import { mineTemplate } from './pow'
+import type { PowOptions } from './pow'
+import { ReliableDelivery } from './reliable-delivery'
+import type { DeliveryGap, ReliableDeliveryOptions, ReplayCursor } from './reliable-delivery'
+import { SenderPolicy } from './sender-policy'
+import type { Rejection, RejectionStats, SenderPolicyOptions } from './sender-policy'
+import { parseContacts, CONTACT_LIST_KIND } from './profile'
+import { Presence } from './presence'
+import type { Peer, PresenceOptions } from './presence'
+import { parseMessage, checkFreshness, MessageValidationError, DEFAULT_FRESHNESS_POLICY } from './message-validator'
+import type { FreshnessPolicy, MessageErrorReason } from './message-validator'
+import { MemoryReplayStore } from './replay-store'
+import type { ReplayStore } from './replay-store'
 
 // ============================================================================
 // Configuration
@@ -21,6 +45,27 @@ const DEFAULT_RELAYS = [
   'wss://nos.lol'
 ]
 
+// JSON-RPC 2.0 codes for failures of the call itself; application
+// errors use their own codes (see RpcContract)
+const RPC_ERRORS = {
+  // The reply did not match the method's contract
+  INVALID_RESULT: -32000,
+  // Turned away by the sender policy
+  UNAUTHORIZED: -32001,
+  RATE_LIMITED: -32002,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603
+} as const
+
+// Marks encrypted content: to the p-tagged recipient, or with a channel key
+const ENCRYPTION_TAG = 'encryption'
+const NIP44 = 'nip44'
+const NIP44_GROUP = 'nip44-group'
+
+// Channel carrying heartbeats, within each namespace
+const PRESENCE_CHANNEL = '_presence'
+
 // ============================================================================
 // Message Types
 // ============================================================================
@@ -31,9 +76,18 @@ interface BaseMessage {
   timestamp: number
 }
 
+interface RpcErrorPayload {
+  code: number
+  message: string
+  data?: unknown
+}
+
 interface DataMessage extends BaseMessage {
   type: 'data'
   payload: unknown
+  // Reliable mode: the sender's stream and this message's place in it
+  stream?: string
+  seq?: number
 }
 
 interface RequestMessage extends BaseMessage {
@@ -47,10 +101,111 @@ interface ResponseMessage extends BaseMessage {
   type: 'response'
   correlationId: string
   result?: unknown
-  error?: { code: number; message: string }
+  error?: RpcErrorPayload
+}
+
+// Interim status from a long-running request; resets the idle timeout
+interface ProgressMessage extends BaseMessage {
+  type: 'progress'
+  correlationId: string
+  progress: unknown
+}
+
+// One streamed result; `seq` restores order, as relays don't keep it
+interface ChunkMessage extends BaseMessage {
+  type: 'chunk'
+  correlationId: string
+  seq: number
+  data: unknown
+}
+
+// Closes a stream of `count` chunks, or reports why it broke off
+interface EndMessage extends BaseMessage {
+  type: 'end'
+  correlationId: string
+  count: number
+  error?: RpcErrorPayload
+}
+
+// Reliable mode: every message up to `seq` in `stream` arrived
+interface AckMessage extends BaseMessage {
+  type: 'ack'
+  stream: string
+  seq: number
+}
+
+// Heartbeat on the namespace's presence channel
+interface PresenceMessage extends BaseMessage {
+  type: 'presence'
+  status: 'online' | 'offline'
+  // The next heartbeat is due within this long
+  intervalMs: number
+  capabilities: string[]
+  metadata?: Record<string, unknown>
 }
 
-type Message = DataMessage | RequestMessage | ResponseMessage
+type Message =
+  | DataMessage
+  | RequestMessage
+  | ResponseMessage
+  | ProgressMessage
+  | ChunkMessage
+  | EndMessage
+  | AckMessage
+  | PresenceMessage
+
+// Thrown by request handlers to reply with a specific code; requests
+// reject with it, carrying the code the remote side sent
+class RpcError extends Error {
+  readonly code: number
+  readonly data?: unknown
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message)
+    this.name = 'RpcError'
+    this.code = code
+    this.data = data
+  }
+
+  static from(err: unknown): RpcError {
+    if (err instanceof RpcError) return err
+    return new RpcError(RPC_ERRORS.INTERNAL_ERROR, err instanceof Error ? err.message : String(err))
+  }
+
+  toPayload(): RpcErrorPayload {
+    return this.data === undefined
+      ? { code: this.code, message: this.message }
+      : { code: this.code, message: this.message, data: this.data }
+  }
+}
+
+// Replies that settle or advance a pending request
+type ReplyMessage = ResponseMessage | ProgressMessage | ChunkMessage | EndMessage
+
+// Return a value for one response, or an async iterable (e.g. an
+// async generator) to stream each item as a chunk
+type RequestHandler = (
+  method: string,
+  params: unknown,
+  event: Event,
+  context: RequestContext
+) => Promise<unknown> | AsyncIterable<unknown>
+
+interface RequestContext {
+  // Tell the caller we're still working; resets its idle timeout
+  progress(value: unknown): Promise<void>
+}
+
+type EncryptionMode = 'none' | 'nip44'
+
+interface MessageErrorReport {
+  event: Event
+  // 'handler-error': a subscribe or subscribeToMe callback threw
+  // 'replay-store-error': the replay store couldn't record the id, so
+  // the event is dropped rather than risk handling a replay
+  reason: MessageErrorReason | 'handler-error' | 'replay-store-error'
+  error: Error
+}
 
 // ============================================================================
 // Pub/Sub Handler
@@ -58,47 +213,223 @@ type Message = DataMessage | RequestMessage | ResponseMessage
 
 interface PubSubOptions {
   relays?: string[]
-  sk?: Uint8Array
+  signer?: Signer
   kind?: number
   namespace?: string
+  publishPolicy?: Partial<PublishPolicy>
+  validation?: Partial<ValidationPolicy>
+  onInvalidEvent?: (report: InvalidEventReport) => void
+  // NIP-42: relays we answer AUTH challenges for. Default: none
+  auth?: AuthPolicy
+  onAuthStatusChange?: (status: RelayAuthStatus) => void
+  // NIP-13 PoW mined into every message; override per call
+  pow?: PowOptions
+  // 'nip44': encrypt targeted messages to the recipient and drop
+  // cleartext ones addressed to us. Default: 'none'
+  encryption?: EncryptionMode
+  // Channel name to a 32-byte hex key shared out of band (see
+  // generateGroupKey); those channels are encrypted and cleartext dropped
+  groupKeys?: Record<string, string>
+  // Sequence numbers, acks and retransmits for sendTo(); peers must
+  // enable it too
+  reliable?: ReliableDeliveryOptions
+  // Who may message us or call which methods, and how often. Default:
+  // anyone, unlimited
+  senderPolicy?: SenderPolicyOptions
+  // Heartbeats and a roster of peers in the namespace; also makes
+  // request() fail fast for peers not seen lately
+  presence?: PresenceOptions
+  // How old, or how far ahead, created_at and message timestamps may be
+  freshness?: Partial<FreshnessPolicy>
+  // Ids of processed events, kept for the freshness window.
+  // JsonlReplayStore survives restarts. Default: in memory
+  replayStore?: ReplayStore
+  // Events dropped as malformed, stale, undecryptable and so on, and
+  // errors thrown by message callbacks
+  onMessageError?: (report: MessageErrorReport) => void
+  // Background failures, such as a signer that can't give our pubkey
+  // so the shared subscription never opens. Default: console.error
+  onError?: (error: Error) => void
 }
 
 interface PendingRequest {
-  resolve: (result: unknown) => void
-  reject: (error: Error) => void
+  method: string
+  // Only replies signed by the peer we asked count
+  targetPk: string
+  idleTimeoutMs: number
   timeout: NodeJS.Timeout
+  // Chunks that arrived early, by seq
+  chunks: Map<number, unknown>
+  nextSeq: number
+  // Set by the end message
+  total?: number
+  onProgress?: (progress: unknown) => void
+  onChunk: (data: unknown) => void
+  // `response` is set when the reply was a single plain response
+  onDone: (error: Error | null, response?: { result: unknown }) => void
+  // Stop watching for events p-tagged to us, which carry the replies
+  unwatch: () => void
 }
 
+// Events on a channel (its `d` tag), or events p-tagged to us
+type Scope = { channel: string } | { target: true }
+
+interface Route {
+  scope: Scope
+  type: Message['type']
+  handle: (event: Event, message: Message) => void
+}
+
+// Gather channel changes made together into one new REQ
+const RESUBSCRIBE_DELAY_MS = 10
+
+const REPLAY_PRUNE_INTERVAL_MS = 60 * 1000
+
 class PubSubHandler {
   private pool: SimplePool
   private relays: string[]
-  private sk: Uint8Array
-  private pk: string
+  private signer: Signer
+  private auth: RelayAuthenticator
+  private pk: Promise<string>
   private kind: number
   private namespace: string
-  private subscriptions: Sub[] = []
+  private publishPolicy: Partial<PublishPolicy>
+  private pow?: PowOptions
+  private encryption: EncryptionMode
+  private groupKeys: Map<string, Uint8Array>
+  private reliable?: ReliableDelivery
+  private storedKind?: number
+  private unwatchAcks: (() => void) | null = null
+  private senderPolicy: SenderPolicy | null
+  private presence: Presence | null = null
+  // One REQ per relay for everything below, replaced as it changes
+  private subscription: SubCloser | null = null
+  private resubscribeTimer: ReturnType<typeof setTimeout> | null = null
+  // Settles once the pending resubscribe has opened its REQ
+  private resubscribed: Promise<void> = Promise.resolve()
+  // `d` value to the number of handlers on that channel
+  private channels = new Map<string, number>()
+  private targetWatchers = 0
+  // Earliest `since` asked for since the last REQ, per filter
+  private channelSince?: number
+  private targetSince?: number
+  // Resolved before the first REQ, so set whenever events arrive
+  private me = ''
   private pendingRequests = new Map<string, PendingRequest>()
-  private handlers = new Map<string, (event: Event, message: Message) => void>()
-  private seenIds = new Set<string>()
+  private handlers = new Map<string, Route>()
+  private freshness: FreshnessPolicy
+  private replayStore: ReplayStore
+  private lastPrunedAt = 0
+  private onMessageError: (report: MessageErrorReport) => void
+  private onError: (error: Error) => void
 
   constructor(options: PubSubOptions = {}) {
     this.pool = new SimplePool()
+    new EventValidator(options.validation, options.onInvalidEvent).install(this.pool)
     this.relays = options.relays ?? DEFAULT_RELAYS
-    this.sk = options.sk ?? generateSecretKey()
-    this.pk = getPublicKey(this.sk)
+    this.signer = options.signer ?? new LocalKeySigner()
+    this.auth = new RelayAuthenticator(this.signer, options.auth, { onStatusChange: options.onAuthStatusChange })
+    this.auth.install(this.pool)
+    this.pk = this.signer.getPublicKey()
+    // Methods that need the key reject with the signer's error; the
+    // shared subscription reports it through onError
+    this.pk.catch(() => {})
     this.kind = options.kind ?? MESSAGE_KIND
     this.namespace = options.namespace ?? 'default'
+    this.publishPolicy = options.publishPolicy ?? {}
+    this.pow = options.pow
+    this.encryption = options.encryption ?? 'none'
+    this.freshness = { ...DEFAULT_FRESHNESS_POLICY, ...options.freshness }
+    this.replayStore = options.replayStore ?? new MemoryReplayStore()
+    this.onMessageError = options.onMessageError ?? (() => {})
+    this.onError = options.onError ?? ((error) => console.error('PubSubHandler:', error))
+    this.groupKeys = new Map(
+      Object.entries(options.groupKeys ?? {}).map(([channel, key]) => [`${this.namespace}:${channel}`, hexToBytes(key)])
+    )
+
+    if (options.reliable) {
+      const storedKind = this.storedKind = options.reliable.storedKind
+      this.reliable = new ReliableDelivery({
+        // Acks stay ephemeral; only data is worth replaying
+        send: (targetPk, message, publishOptions = {}) => this.publishMessage(message, targetPk, undefined, {
+          ...publishOptions,
+          kind: message.type === 'data' ? storedKind : undefined
+        }),
+        deliver: (event, message) => this.dispatch(event, message)
+      }, options.reliable)
+    }
+
+    this.senderPolicy = options.senderPolicy
+      ? new SenderPolicy(options.senderPolicy, pubkey => this.loadFollows(pubkey))
+      : null
+
+    if (options.presence) {
+      const presence = this.presence = new Presence({
+        announce: (message) => this.publishMessage(message, undefined, PRESENCE_CHANNEL)
+      }, options.presence)
+      this.register({ channel: `${this.namespace}:${PRESENCE_CHANNEL}` }, 'presence', (event, message) => {
+        presence.receive(event.pubkey, message as PresenceMessage)
+      }, Math.floor(Date.now() / 1000))
+      presence.start()
+    }
   }
 
-  get publicKey(): string {
+  async getPublicKey(): Promise<string> {
     return this.pk
   }
 
+  getAuthStatus(): RelayAuthStatus[] {
+    return this.auth.getAllStatus()
+  }
+
+  // Reliable mode: save on shutdown, pass back as `reliable.resumeFrom`
+  getReplayCursor(): ReplayCursor | null {
+    return this.reliable?.getReplayCursor() ?? null
+  }
+
+  // Messages and requests the sender policy turned away
+  getRejectionStats(): RejectionStats | null {
+    return this.senderPolicy?.getStats() ?? null
+  }
+
+  // -------------------------------------------------------------------------
+  // Presence
+  // -------------------------------------------------------------------------
+
+  // Peers heard from lately, optionally only those advertising `capability`
+  getPeers(capability?: string): Peer[] {
+    return this.presence?.getPeers(capability) ?? []
+  }
+
+  isOnline(pubkey: string): boolean {
+    return this.presence?.isOnline(pubkey) ?? false
+  }
+
+  // Change the capabilities or metadata we advertise
+  setPresence(changes: { capabilities?: string[]; metadata?: Record<string, unknown> }): void {
+    this.presence?.update(changes)
+  }
+
+  // Call before close() so peers drop us now instead of timing us out
+  async leavePresence(): Promise<void> {
+    await this.presence?.leave()
+  }
+
+  private async loadFollows(pubkey: string): Promise<string[]> {
+    const event = await this.pool.get(this.relays, { kinds: [CONTACT_LIST_KIND], authors: [pubkey] }, { maxWait: 5000 })
+    return event ? parseContacts(event).map(contact => contact.pubkey) : []
+  }
+
   // -------------------------------------------------------------------------
   // Publishing
   // -------------------------------------------------------------------------
 
-  private async publishMessage(message: Message, targetPk?: string, channel?: string): Promise<string> {
+  private async publishMessage(
+    message: Message,
+    targetPk?: string,
+    channel?: string,
+    options: { pow?: PowOptions; kind?: number } = {}
+  ): Promise<PublishReport> {
     const tags: string[][] = [['t', this.namespace]]
 
     if (targetPk) {
@@ -109,18 +440,34 @@ class PubSubHandler {
       tags.push(['d', `${this.namespace}:${channel}`])
     }
 
-    const event = finalizeEvent({
-      kind: this.kind,
+    let content = JSON.stringify(message)
+    const groupKey = channel ? this.groupKeys.get(`${this.namespace}:${channel}`) : undefined
+    if (groupKey) {
+      content = nip44.v2.encrypt(content, groupKey)
+      tags.push([ENCRYPTION_TAG, NIP44_GROUP])
+    } else if (targetPk && this.encryption === 'nip44') {
+      content = await this.signer.encrypt(targetPk, content)
+      tags.push([ENCRYPTION_TAG, NIP44])
+    }
+
+    let template: EventTemplate = {
+      kind: options.kind ?? this.kind,
       created_at: Math.floor(Date.now() / 1000),
       tags,
-      content: JSON.stringify(message)
-    }, this.sk)
+      content
+    }
 
-    await Promise.any(this.pool.publish(this.relays, event))
-    return event.id
+    const pow = options.pow ?? this.pow
+    if (pow) {
+      template = await mineTemplate(template, await this.pk, pow)
+    }
+
+    const event = await this.signer.signEvent(template)
+
+    return publishToRelays(this.pool, this.relays, event, this.publishPolicy)
   }
 
-  async publish(payload: unknown, channel?: string): Promise<string> {
+  async publish(payload: unknown, channel?: string, options: { pow?: PowOptions } = {}): Promise<PublishReport> {
     const message: DataMessage = {
       version: 1,
       type: 'data',
@@ -128,10 +475,17 @@ class PubSubHandler {
       payload
     }
 
-    return this.publishMessage(message, undefined, channel)
+    return this.publishMessage(message, undefined, channel, options)
   }
 
-  async sendTo(targetPk: string, payload: unknown): Promise<string> {
+  async sendTo(targetPk: string, payload: unknown, options: { pow?: PowOptions } = {}): Promise<PublishReport> {
+    // Retransmitted until acked; see ReliableDelivery
+    if (this.reliable) {
+      // Acks come back tagged to us, even if nothing else listens for that
+      this.unwatchAcks ??= this.watch({ target: true }, Math.floor(Date.now() / 1000))
+      return this.reliable.send(targetPk, payload, options)
+    }
+
     const message: DataMessage = {
       version: 1,
       type: 'data',
@@ -139,14 +493,99 @@ class PubSubHandler {
       payload
     }
 
-    return this.publishMessage(message, targetPk)
+    return this.publishMessage(message, targetPk, undefined, options)
   }
 
   // -------------------------------------------------------------------------
   // Request/Response
   // -------------------------------------------------------------------------
 
-  async request<T>(targetPk: string, method: string, params: unknown, timeoutMs = 10000): Promise<T> {
+  /**
+   * Resolves with the response, or with every chunk when the remote
+   * handler streams. `timeoutMs` counts from the last sign of life
+   * (progress or chunk), not from the start.
+   */
+  async request<T>(
+    targetPk: string,
+    method: string,
+    params: unknown,
+    timeoutMs = 10000,
+    options: { onProgress?: (progress: unknown) => void; requireOnline?: boolean } = {}
+  ): Promise<T> {
+    const chunks: unknown[] = []
+
+    return new Promise((resolve, reject) => {
+      this.startRequest(targetPk, method, params, {
+        idleTimeoutMs: timeoutMs,
+        onProgress: options.onProgress,
+        onChunk: data => chunks.push(data),
+        onDone: (error, response) => {
+          if (error) reject(error)
+          else resolve((response ? response.result : chunks) as T)
+        }
+      }, options.requireOnline)
+    })
+  }
+
+  /**
+   * Iterate over a streamed reply as chunks arrive, in order. A plain
+   * response yields once. Breaking out of the loop stops listening.
+   */
+  async *requestStream<T>(
+    targetPk: string,
+    method: string,
+    params: unknown,
+    options: { idleTimeoutMs?: number; onProgress?: (progress: unknown) => void; requireOnline?: boolean } = {}
+  ): AsyncGenerator<T> {
+    const queue: T[] = []
+    let done = false
+    let failure: Error | null = null
+    let wake: (() => void) | null = null
+    const notify = () => {
+      wake?.()
+      wake = null
+    }
+
+    const correlationId = this.startRequest(targetPk, method, params, {
+      idleTimeoutMs: options.idleTimeoutMs ?? 10000,
+      onProgress: options.onProgress,
+      onChunk: data => {
+        queue.push(data as T)
+        notify()
+      },
+      onDone: (error, response) => {
+        if (response) queue.push(response.result as T)
+        failure = error
+        done = true
+        notify()
+      }
+    }, options.requireOnline)
+
+    try {
+      while (true) {
+        if (queue.length > 0) {
+          yield queue.shift()!
+        } else if (failure) {
+          throw failure
+        } else if (done) {
+          return
+        } else {
+          await new Promise<void>(resolve => { wake = resolve })
+        }
+      }
+    } finally {
+      this.settleRequest(correlationId, null)
+    }
+  }
+
+  private startRequest(
+    targetPk: string,
+    method: string,
+    params: unknown,
+    callbacks: Pick<PendingRequest, 'idleTimeoutMs' | 'onProgress' | 'onChunk' | 'onDone'>,
+    // Default: presence.failFast when presence is on
+    requireOnline = this.presence?.failFast ?? false
+  ): string {
     const correlationId = crypto.randomUUID()
 
     const message: RequestMessage = {
@@ -158,24 +597,89 @@ class PubSubHandler {
       params
     }
 
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        this.pendingRequests.delete(correlationId)
-        reject(new Error(`Request timeout: ${method}`))
-      }, timeoutMs)
+    this.pendingRequests.set(correlationId, {
+      ...callbacks,
+      method,
+      targetPk,
+      timeout: this.armTimeout(correlationId, method, callbacks.idleTimeoutMs),
+      chunks: new Map(),
+      nextSeq: 0,
+      unwatch: this.watch({ target: true }, Math.floor(Date.now() / 1000))
+    })
 
-      this.pendingRequests.set(correlationId, { resolve, reject, timeout })
+    // No point waiting out the timeout for a peer that isn't there
+    if (requireOnline && targetPk !== this.me && !this.isOnline(targetPk)) {
+      this.settleRequest(correlationId, new Error(`Peer not online: ${targetPk}`))
+      return correlationId
+    }
 
-      this.publishMessage(message, targetPk).catch(err => {
-        clearTimeout(timeout)
-        this.pendingRequests.delete(correlationId)
-        reject(err)
+    // Send once the REQ for replies is open, so a quick answer isn't
+    // missed (ephemeral events aren't stored for a late REQ)
+    this.resubscribed
+      .then(() => {
+        if (this.pendingRequests.has(correlationId)) return this.publishMessage(message, targetPk)
       })
-    })
+      .catch(err => this.settleRequest(correlationId, err))
+    return correlationId
+  }
+
+  private armTimeout(correlationId: string, method: string, ms: number): NodeJS.Timeout {
+    return setTimeout(() => this.settleRequest(correlationId, new Error(`Request timeout: ${method}`)), ms)
+  }
+
+  private settleRequest(correlationId: string, error: Error | null, response?: { result: unknown }): void {
+    const pending = this.pendingRequests.get(correlationId)
+    if (!pending) return
+
+    clearTimeout(pending.timeout)
+    this.pendingRequests.delete(correlationId)
+    pending.unwatch()
+    pending.onDone(error, response)
+  }
+
+  private handleReply(message: ReplyMessage, from: string): boolean {
+    const pending = this.pendingRequests.get(message.correlationId)
+    if (!pending) return false
+    // Anyone who saw the request can send a reply with its id; drop those
+    if (from !== pending.targetPk) return true
+
+    // Any reply shows the remote side is alive
+    clearTimeout(pending.timeout)
+    pending.timeout = this.armTimeout(message.correlationId, pending.method, pending.idleTimeoutMs)
+
+    switch (message.type) {
+      case 'response':
+        if (message.error) this.settleRequest(message.correlationId, rpcErrorFrom(message.error))
+        else this.settleRequest(message.correlationId, null, { result: message.result })
+        return true
+      case 'progress':
+        pending.onProgress?.(message.progress)
+        return true
+      case 'chunk':
+        if (message.seq >= pending.nextSeq) pending.chunks.set(message.seq, message.data)
+        break
+      case 'end':
+        if (message.error) {
+          this.settleRequest(message.correlationId, rpcErrorFrom(message.error))
+          return true
+        }
+        pending.total = message.count
+        break
+    }
+
+    // Hand over chunks in order, then finish once all have arrived
+    while (pending.chunks.has(pending.nextSeq)) {
+      pending.onChunk(pending.chunks.get(pending.nextSeq))
+      pending.chunks.delete(pending.nextSeq++)
+    }
+    if (pending.total !== undefined && pending.nextSeq >= pending.total) {
+      this.settleRequest(message.correlationId, null)
+    }
+    return true
   }
 
   async respond(requestEvent: Event, result: unknown): Promise<void> {
-    const request = JSON.parse(requestEvent.content) as RequestMessage
+    const request = await this.decodeMessage(requestEvent) as RequestMessage
 
     const message: ResponseMessage = {
       version: 1,
@@ -188,178 +692,414 @@ class PubSubHandler {
     await this.publishMessage(message, requestEvent.pubkey)
   }
 
-  async respondError(requestEvent: Event, code: number, errorMessage: string): Promise<void> {
-    const request = JSON.parse(requestEvent.content) as RequestMessage
+  async respondError(requestEvent: Event, code: number, errorMessage: string, data?: unknown): Promise<void> {
+    const request = await this.decodeMessage(requestEvent) as RequestMessage
 
     const message: ResponseMessage = {
       version: 1,
       type: 'response',
       timestamp: Date.now(),
       correlationId: request.correlationId,
-      error: { code, message: errorMessage }
+      error: new RpcError(code, errorMessage, data).toPayload()
     }
 
     await this.publishMessage(message, requestEvent.pubkey)
   }
 
+  async respondProgress(requestEvent: Event, progress: unknown): Promise<void> {
+    const request = await this.decodeMessage(requestEvent) as RequestMessage
+
+    const message: ProgressMessage = {
+      version: 1,
+      type: 'progress',
+      timestamp: Date.now(),
+      correlationId: request.correlationId,
+      progress
+    }
+
+    await this.publishMessage(message, requestEvent.pubkey)
+  }
+
+  /**
+   * Send each item as a chunk, then an end message with the count.
+   * An error thrown mid-stream ends it with that error instead.
+   */
+  async respondStream(requestEvent: Event, items: AsyncIterable<unknown>): Promise<void> {
+    const request = await this.decodeMessage(requestEvent) as RequestMessage
+    const base = { version: 1 as const, correlationId: request.correlationId }
+    let count = 0
+    let error: EndMessage['error']
+
+    try {
+      for await (const data of items) {
+        const chunk: ChunkMessage = { ...base, type: 'chunk', timestamp: Date.now(), seq: count++, data }
+        await this.publishMessage(chunk, requestEvent.pubkey)
+      }
+    } catch (err) {
+      error = RpcError.from(err).toPayload()
+    }
+
+    const end: EndMessage = { ...base, type: 'end', timestamp: Date.now(), count, error }
+    await this.publishMessage(end, requestEvent.pubkey)
+  }
+
   // -------------------------------------------------------------------------
   // Subscribing
   // -------------------------------------------------------------------------
 
-  private handleEvent(event: Event): void {
-    // Deduplicate
-    if (this.seenIds.has(event.id)) return
-    this.seenIds.add(event.id)
-
-    // LRU cleanup
-    if (this.seenIds.size > 10000) {
-      const first = this.seenIds.values().next().value
-      this.seenIds.delete(first)
+  /**
+   * Decrypt if needed, parse and validate. Throws MessageValidationError
+   * on content we can't read or trust, including cleartext where
+   * encryption is required.
+   */
+  private async decodeMessage(event: Event): Promise<Message> {
+    const encryption = event.tags.find(t => t[0] === ENCRYPTION_TAG)?.[1]
+    const channel = event.tags.find(t => t[0] === 'd')?.[1]
+    const groupKey = channel ? this.groupKeys.get(channel) : undefined
+    let content = event.content
+
+    if (groupKey) {
+      if (encryption !== NIP44_GROUP) {
+        throw new MessageValidationError('cleartext', `Cleartext message on encrypted channel ${channel}`)
+      }
+      content = await decryptContent(() => nip44.v2.decrypt(event.content, groupKey))
+    } else if (encryption === NIP44) {
+      content = await decryptContent(() => this.signer.decrypt(event.pubkey, event.content))
+    } else {
+      const me = await this.pk
+      if (this.encryption === 'nip44' && event.tags.some(t => t[0] === 'p' && t[1] === me)) {
+        throw new MessageValidationError('cleartext', `Cleartext message from ${event.pubkey} where encryption is required`)
+      }
     }
 
+    let value: unknown
     try {
-      const message = JSON.parse(event.content) as Message
-
-      // Handle responses to pending requests
-      if (message.type === 'response') {
-        const pending = this.pendingRequests.get(message.correlationId)
-        if (pending) {
-          clearTimeout(pending.timeout)
-          this.pendingRequests.delete(message.correlationId)
-
-          if (message.error) {
-            pending.reject(new Error(message.error.message))
-          } else {
-            pending.resolve(message.result)
-          }
-          return
-        }
-      }
+      value = JSON.parse(content)
+    } catch {
+      throw new MessageValidationError('malformed', 'Content is not JSON')
+    }
+    return parseMessage(value)
+  }
 
-      // Dispatch to registered handlers
-      this.handlers.forEach(handler => handler(event, message))
+  private async handleEvent(event: Event): Promise<void> {
+    // Stored reliable messages are replayed from long ago on purpose;
+    // their sequence numbers catch repeats instead
+    const ignoreAge = this.reliable !== undefined && event.kind === this.storedKind
+
+    const outside = checkFreshness(event.created_at, this.freshness, { ignoreAge })
+    if (outside) {
+      this.reportMessageError(event, new MessageValidationError(outside, `created_at ${event.created_at} is outside the freshness window`))
+      return
+    }
+
+    // Copies from other relays, or a relay resending what we've handled
+    try {
+      if (!await this.replayStore.add(event.id, event.created_at)) return
     } catch (err) {
-      console.error('Failed to parse message:', err)
+      this.onMessageError({ event, reason: 'replay-store-error', error: toError(err) })
+      return
     }
-  }
+    this.pruneReplayStore()
 
-  subscribe(channel: string, onMessage: (data: unknown, from: string) => void): () => void {
-    const filter: Filter = {
-      kinds: [this.kind],
-      '#d': [`${this.namespace}:${channel}`],
-      since: Math.floor(Date.now() / 1000)
+    let message: Message
+    try {
+      message = await this.decodeMessage(event)
+      const skewed = checkFreshness(Math.floor(message.timestamp / 1000), this.freshness, { ignoreAge })
+      if (skewed) {
+        throw new MessageValidationError(skewed, `timestamp ${message.timestamp} is outside the freshness window`)
+      }
+    } catch (err) {
+      this.reportMessageError(event, err)
+      return
     }
 
-    const handlerId = crypto.randomUUID()
+    try {
+      // Handle replies to pending requests
+      if (
+        message.type === 'response' || message.type === 'progress' ||
+        message.type === 'chunk' || message.type === 'end'
+      ) {
+        if (this.handleReply(message, event.pubkey)) return
+      }
 
-    this.handlers.set(handlerId, (event, message) => {
-      if (message.type === 'data') {
-        onMessage((message as DataMessage).payload, event.pubkey)
+      if (message.type === 'ack') {
+        this.reliable?.handleAck(event.pubkey, message)
+        return
       }
-    })
 
-    const sub = this.pool.subscribeMany(this.relays, [filter], {
-      onevent: (event) => this.handleEvent(event)
-    })
+      // Our own heartbeats come back to us too
+      if (message.type === 'presence' && event.pubkey === this.me) return
 
-    this.subscriptions.push(sub)
+      // Replies and acks answer our own messages; the policy covers
+      // what others start
+      if (
+        (message.type === 'data' || message.type === 'request' || message.type === 'presence') &&
+        !await this.authorize(event, message)
+      ) {
+        return
+      }
 
-    return () => {
-      this.handlers.delete(handlerId)
-      sub.close()
+      // Sequenced messages are held until they can go out in order
+      if (message.type === 'data' && this.reliable) {
+        this.reliable.receive(event, message)
+        return
+      }
+
+      this.dispatch(event, message)
+    } catch (err) {
+      this.onMessageError({ event, reason: 'handler-error', error: toError(err) })
     }
   }
 
-  subscribeToMe(onMessage: (data: unknown, from: string) => void): () => void {
-    const filter: Filter = {
-      kinds: [this.kind],
-      '#p': [this.pk],
-      '#t': [this.namespace],
-      since: Math.floor(Date.now() / 1000)
+  private reportMessageError(event: Event, err: unknown): void {
+    const reason = err instanceof MessageValidationError ? err.reason : 'malformed'
+    this.onMessageError({ event, reason, error: toError(err) })
+  }
+
+  // Ids older than the freshness window would be rejected as stale
+  // anyway, so the store only needs to cover the window
+  private pruneReplayStore(): void {
+    const now = Date.now()
+    if (now - this.lastPrunedAt < REPLAY_PRUNE_INTERVAL_MS) return
+    this.lastPrunedAt = now
+
+    const before = Math.floor(now / 1000) - this.freshness.maxAgeSeconds
+    // A failed prune is retried on the next interval
+    this.replayStore.prune(before).catch(() => {})
+  }
+
+  private async authorize(event: Event, message: DataMessage | RequestMessage | PresenceMessage): Promise<boolean> {
+    if (!this.senderPolicy) return true
+
+    const rejection = await this.senderPolicy.check(
+      event.pubkey,
+      message.type === 'request' ? message.method : undefined
+    )
+    if (!rejection) return true
+
+    if (message.type === 'request' && rejection.reply) {
+      const { code, message: text, data } = rejectionError(rejection)
+      await this.respondError(event, code, text, data).catch(() => {})
     }
+    return false
+  }
 
-    const handlerId = crypto.randomUUID()
+  // Hand each event only to handlers on its channel, or on our
+  // targeted messages if it is p-tagged to us
+  private dispatch(event: Event, message: Message): void {
+    const channel = event.tags.find(t => t[0] === 'd')?.[1]
+    const targeted = event.tags.some(t => t[0] === 'p' && t[1] === this.me)
 
-    this.handlers.set(handlerId, (event, message) => {
-      if (message.type === 'data') {
-        onMessage((message as DataMessage).payload, event.pubkey)
-      }
+    this.handlers.forEach(({ scope, type, handle }) => {
+      if (type !== message.type) return
+      if ('channel' in scope ? scope.channel === channel : targeted) handle(event, message)
     })
+  }
 
-    const sub = this.pool.subscribeMany(this.relays, [filter], {
-      onevent: (event) => this.handleEvent(event)
-    })
+  // -------------------------------------------------------------------------
+  // Shared Subscription
+  // -------------------------------------------------------------------------
 
-    this.subscriptions.push(sub)
+  private register(scope: Scope, type: Message['type'], handle: Route['handle'], since: number): () => void {
+    const handlerId = crypto.randomUUID()
+    this.handlers.set(handlerId, { scope, type, handle })
+    const unwatch = this.watch(scope, since)
 
     return () => {
-      this.handlers.delete(handlerId)
-      sub.close()
+      if (!this.handlers.delete(handlerId)) return
+      unwatch()
     }
   }
 
-  onRequest(handler: (method: string, params: unknown, event: Event) => Promise<unknown>): () => void {
-    const filter: Filter = {
-      kinds: [this.kind],
-      '#p': [this.pk],
-      '#t': [this.namespace],
-      since: Math.floor(Date.now() / 1000)
+  /**
+   * Add `scope` to the shared subscription until the returned function
+   * is called. A new channel or an earlier `since` replaces the REQ;
+   * anything else rides on the one already open.
+   */
+  private watch(scope: Scope, since: number): () => void {
+    const now = Math.floor(Date.now() / 1000)
+    let changed = since < now
+
+    if ('channel' in scope) {
+      const count = this.channels.get(scope.channel) ?? 0
+      this.channels.set(scope.channel, count + 1)
+      if (count === 0) changed = true
+      this.channelSince = Math.min(this.channelSince ?? since, since)
+    } else {
+      if (this.targetWatchers++ === 0) changed = true
+      this.targetSince = Math.min(this.targetSince ?? since, since)
     }
+    if (changed) this.scheduleResubscribe()
 
-    const handlerId = crypto.randomUUID()
+    let watching = true
+    return () => {
+      if (!watching) return
+      watching = false
 
-    this.handlers.set(handlerId, async (event, message) => {
-      if (message.type === 'request') {
-        const req = message as RequestMessage
-        try {
-          const result = await handler(req.method, req.params, event)
-          await this.respond(event, result)
-        } catch (err) {
-          await this.respondError(event, -1, String(err))
+      if ('channel' in scope) {
+        const count = this.channels.get(scope.channel)! - 1
+        if (count > 0) {
+          this.channels.set(scope.channel, count)
+          return
         }
+        this.channels.delete(scope.channel)
+      } else if (--this.targetWatchers > 0) {
+        return
       }
-    })
+      this.scheduleResubscribe()
+    }
+  }
 
-    const sub = this.pool.subscribeMany(this.relays, [filter], {
-      onevent: (event) => this.handleEvent(event)
+  private scheduleResubscribe(): void {
+    if (this.resubscribeTimer) return
+    this.resubscribed = new Promise(resolve => {
+      this.resubscribeTimer = setTimeout(() => {
+        this.resubscribe().catch(err => this.onError(toError(err))).finally(resolve)
+      }, RESUBSCRIBE_DELAY_MS)
     })
+  }
 
-    this.subscriptions.push(sub)
+  private async resubscribe(): Promise<void> {
+    this.resubscribeTimer = null
+    // Our pubkey may come from a remote signer
+    this.me = await this.pk
+
+    // Channels and targets already open resume from now; events the
+    // two REQs both match are dropped as duplicates
+    const now = Math.floor(Date.now() / 1000)
+    const filters: Filter[] = []
+    if (this.channels.size > 0) {
+      filters.push({ kinds: [this.kind], '#d': [...this.channels.keys()], since: this.channelSince ?? now })
+    }
+    if (this.targetWatchers > 0) {
+      filters.push(this.getTargetedFilter(this.targetSince ?? now))
+    }
+    this.channelSince = undefined
+    this.targetSince = undefined
+
+    // Open the replacement before closing the old REQ so nothing slips
+    // through between them
+    const previous = this.subscription
+    this.subscription = filters.length > 0
+      ? this.pool.subscribeMany(this.relays, filters, { onevent: (event) => this.handleEvent(event) })
+      : null
+    previous?.close()
+  }
 
-    return () => {
-      this.handlers.delete(handlerId)
-      sub.close()
+  private getTargetedFilter(since: number): Filter {
+    return {
+      kinds: this.storedKind ? [this.kind, this.storedKind] : [this.kind],
+      '#p': [this.me],
+      '#t': [this.namespace],
+      since
     }
   }
 
+  subscribe(channel: string, onMessage: (data: unknown, from: string) => void): () => void {
+    return this.register({ channel: `${this.namespace}:${channel}` }, 'data', (event, message) => {
+      onMessage((message as DataMessage).payload, event.pubkey)
+    }, Math.floor(Date.now() / 1000))
+  }
+
+  subscribeToMe(onMessage: (data: unknown, from: string) => void): () => void {
+    // Resuming reliable streams: replay stored messages we missed
+    const since = this.reliable?.resumeSince ?? Math.floor(Date.now() / 1000)
+
+    return this.register({ target: true }, 'data', (event, message) => {
+      onMessage((message as DataMessage).payload, event.pubkey)
+    }, since)
+  }
+
+  onRequest(handler: RequestHandler): () => void {
+    return this.register({ target: true }, 'request', async (event, message) => {
+      const req = message as RequestMessage
+      try {
+        const result = handler(req.method, req.params, event, {
+          progress: (value) => this.respondProgress(event, value)
+        })
+        if (isAsyncIterable(result)) await this.respondStream(event, result)
+        else await this.respond(event, await result)
+      } catch (err) {
+        // Throw RpcError for a specific code; anything else is internal
+        const { code, message, data } = RpcError.from(err)
+        // If even the error can't be sent, the caller times out
+        await this.respondError(event, code, message, data).catch(() => {})
+      }
+    }, Math.floor(Date.now() / 1000))
+  }
+
   // -------------------------------------------------------------------------
   // Cleanup
   // -------------------------------------------------------------------------
 
   close(): void {
-    this.subscriptions.forEach(sub => sub.close())
-    this.subscriptions = []
-    this.handlers.clear()
-    this.pendingRequests.forEach(req => {
-      clearTimeout(req.timeout)
-      req.reject(new Error('Handler closed'))
+    // First, while their watches can still be released
+    this.pendingRequests.forEach((_, correlationId) => {
+      this.settleRequest(correlationId, new Error('Handler closed'))
     })
-    this.pendingRequests.clear()
+    this.reliable?.close()
+    this.presence?.stop()
+    if (this.resubscribeTimer) clearTimeout(this.resubscribeTimer)
+    this.resubscribeTimer = null
+    this.subscription?.close()
+    this.subscription = null
+    this.handlers.clear()
+    this.channels.clear()
+    this.targetWatchers = 0
     this.pool.close(this.relays)
   }
 }
 
+function rpcErrorFrom(payload: RpcErrorPayload): RpcError {
+  return new RpcError(payload.code, payload.message, payload.data)
+}
+
+function rejectionError({ reason, method, retryAfterMs }: Rejection): RpcError {
+  switch (reason) {
+    case 'rate-limited':
+      return new RpcError(RPC_ERRORS.RATE_LIMITED, 'Rate limited', { retryAfterMs })
+    case 'method-forbidden':
+      return new RpcError(RPC_ERRORS.UNAUTHORIZED, `Not allowed to call ${method}`)
+    default:
+      return new RpcError(RPC_ERRORS.UNAUTHORIZED, 'Not authorized')
+  }
+}
+
+async function decryptContent(decrypt: () => string | Promise<string>): Promise<string> {
+  try {
+    return await decrypt()
+  } catch (err) {
+    throw new MessageValidationError('undecryptable', toError(err).message)
+  }
+}
+
+function toError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err))
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return typeof (value as AsyncIterable<unknown> | null)?.[Symbol.asyncIterator] === 'function'
+}
+
+// A fresh key for `groupKeys`; share it with channel members out of band
+function generateGroupKey(): string {
+  return bytesToHex(generateSecretKey())
+}
+
 // ============================================================================
 // Usage Example
 // ============================================================================
 
 async function main() {
-  // Create two handlers (simulating two apps)
-  const app1 = new PubSubHandler({ namespace: 'myapp' })
-  const app2 = new PubSubHandler({ namespace: 'myapp' })
+  // Create two handlers (simulating two apps). Relays see only
+  // ciphertext for targeted messages and RPC, and for the team channel
+  const teamKey = generateGroupKey()
+  const app1 = new PubSubHandler({ namespace: 'myapp', encryption: 'nip44', groupKeys: { team: teamKey } })
+  const app2 = new PubSubHandler({ namespace: 'myapp', encryption: 'nip44', groupKeys: { team: teamKey } })
 
-  console.log('App 1 pubkey:', app1.publicKey)
-  console.log('App 2 pubkey:', app2.publicKey)
+  const app2Pk = await app2.getPublicKey()
+  console.log('App 1 pubkey:', await app1.getPublicKey())
+  console.log('App 2 pubkey:', app2Pk)
 
   // App 2 listens for direct messages
   app2.subscribeToMe((data, from) => {
@@ -372,24 +1112,69 @@ async function main() {
     if (method === 'ping') {
       return { pong: true, time: Date.now() }
     }
-    throw new Error('Unknown method')
+    throw new RpcError(RPC_ERRORS.METHOD_NOT_FOUND, `Unknown method: ${method}`)
+  })
+
+  // App 1 serves searches; a generator streams each result as a chunk
+  app1.onRequest(async function* (method, params, event, { progress }) {
+    if (method !== 'search') throw new RpcError(RPC_ERRORS.METHOD_NOT_FOUND, `Unknown method: ${method}`)
+    await progress({ stage: 'indexing' })
+    for (const hit of ['a', 'b', 'c']) yield { hit }
   })
 
   // Wait for subscriptions to establish
   await new Promise(r => setTimeout(r, 1000))
 
   // App 1 sends to App 2
-  await app1.sendTo(app2.publicKey, { hello: 'world' })
+  await app1.sendTo(app2Pk, { hello: 'world' })
 
   // App 1 makes a request to App 2
-  const result = await app1.request(app2.publicKey, 'ping', {})
+  const result = await app1.request(app2Pk, 'ping', {})
   console.log('Request result:', result)
 
+  // Results arrive as they're found; times out only if app 1 goes quiet
+  for await (const hit of app2.requestStream(await app1.getPublicKey(), 'search', { q: 'nostr' }, {
+    onProgress: (p) => console.log('Progress:', p)
+  })) {
+    console.log('Hit:', hit)
+  }
+
+  // Only holders of teamKey can read the channel
+  app2.subscribe('team', (data) => console.log('Team:', data))
+  await app1.publish({ standup: '10:00' }, 'team')
+
   // Cleanup
   // app1.close()
   // app2.close()
 }
 
 // Export
-export { PubSubHandler }
-export type { Message, DataMessage, RequestMessage, ResponseMessage, PubSubOptions }
+export { PubSubHandler, RpcError, generateGroupKey, RPC_ERRORS }
+export type {
+  Message,
+  DataMessage,
+  RequestMessage,
+  ResponseMessage,
+  ProgressMessage,
+  ChunkMessage,
+  EndMessage,
+  AckMessage,
+  PresenceMessage,
+  RequestHandler,
+  RequestContext,
+  RpcErrorPayload,
+  MessageErrorReport,
+  PubSubOptions,
+  EncryptionMode,
+  PublishReport,
+  AuthPolicy,
+  RelayAuthStatus,
+  PowOptions,
+  ReliableDeliveryOptions,
+  DeliveryGap,
+  ReplayCursor,
+  PresenceOptions,
+  Peer,
+  SenderPolicyOptions,
+  RejectionStats
+}
@@ -0,0 +1,244 @@
+/**
+ * Relay Authentication Template (NIP-42)
+ *
+ * Answers AUTH challenges with the app's Signer on relays that opted
+ * in, and retries publishes and subscriptions that were refused with
+ * `auth-required:` once authentication succeeds.
+ */
+
+import { SimplePool } from 'nostr-tools/pool'
+import { normalizeURL } from 'nostr-tools/utils'
+import type { EventTemplate, VerifiedEvent } from 'nostr-tools'
+import type { AbstractRelay } from 'nostr-tools/abstract-relay'
+import { LocalKeySigner } from './signer'
+import type { Signer } from './signer'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// Relays we are willing to identify ourselves to. AUTH reveals our
+// pubkey to the relay operator, so nothing is opted in by default.
+type AuthPolicy = string[] | ((relay: string) => boolean)
+
+type AuthState = 'none' | 'challenged' | 'authenticating' | 'authenticated' | 'failed'
+
+interface RelayAuthStatus {
+  relay: string
+  state: AuthState
+  // Relay's OK message, or why authentication failed
+  reason?: string
+  updatedAt: number
+}
+
+const AUTH_REQUIRED = 'auth-required:'
+
+function isAuthRequired(reason: string | undefined): boolean {
+  return reason?.startsWith(AUTH_REQUIRED) ?? false
+}
+
+// ============================================================================
+// Authenticator
+// ============================================================================
+
+class RelayAuthenticator {
+  private signer: Signer
+  private policy: AuthPolicy
+  private timeoutMs: number
+  private onStatusChange: (status: RelayAuthStatus) => void
+  private status = new Map<string, RelayAuthStatus>()
+  private pending = new Map<AbstractRelay, Promise<void>>()
+  private hooked = new WeakSet<AbstractRelay>()
+
+  constructor(
+    signer: Signer,
+    policy: AuthPolicy = [],
+    options: { timeoutMs?: number; onStatusChange?: (status: RelayAuthStatus) => void } = {}
+  ) {
+    this.signer = signer
+    this.policy = policy
+    this.timeoutMs = options.timeoutMs ?? 10000
+    this.onStatusChange = options.onStatusChange ?? (() => {})
+  }
+
+  isOptedIn(url: string): boolean {
+    if (typeof this.policy === 'function') return this.policy(url)
+    return this.policy.some(relay => normalizeURL(relay) === normalizeURL(url))
+  }
+
+  getStatus(url: string): RelayAuthStatus {
+    return this.status.get(normalizeURL(url)) ?? { relay: normalizeURL(url), state: 'none', updatedAt: 0 }
+  }
+
+  getAllStatus(): RelayAuthStatus[] {
+    return [...this.status.values()]
+  }
+
+  private setStatus(url: string, state: AuthState, reason?: string): void {
+    const status = { relay: normalizeURL(url), state, reason, updatedAt: Date.now() }
+    this.status.set(status.relay, status)
+    this.onStatusChange(status)
+  }
+
+  /**
+   * Answer the relay's latest challenge. Concurrent callers share one
+   * AUTH round trip. Rejects when the relay refuses or never answers.
+   */
+  authenticate(relay: AbstractRelay): Promise<void> {
+    const inFlight = this.pending.get(relay)
+    if (inFlight) return inFlight
+
+    this.setStatus(relay.url, 'authenticating')
+
+    const attempt = new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('auth timed out')), this.timeoutMs)
+      relay.auth(template => this.sign(template)).then(
+        reason => { clearTimeout(timer); resolve(reason) },
+        err => { clearTimeout(timer); reject(err) }
+      )
+    })
+      .then(reason => this.setStatus(relay.url, 'authenticated', reason || undefined))
+      .catch(err => {
+        const reason = err instanceof Error ? err.message : String(err)
+        this.setStatus(relay.url, 'failed', reason)
+        throw new Error(`AUTH failed on ${relay.url}: ${reason}`)
+      })
+      .finally(() => this.pending.delete(relay))
+
+    this.pending.set(relay, attempt)
+    return attempt
+  }
+
+  private async sign(template: EventTemplate): Promise<VerifiedEvent> {
+    // Signers verify what they return, so the event is already checked
+    return await this.signer.signEvent(template) as VerifiedEvent
+  }
+
+  /**
+   * Hook every relay the pool connects to. Call before the pool opens
+   * its first relay connection.
+   */
+  install(pool: SimplePool): void {
+    const ensureRelay = pool.ensureRelay.bind(pool)
+
+    pool.ensureRelay = async (url, params) => {
+      const relay = await ensureRelay(url, params)
+      if (!this.hooked.has(relay)) {
+        this.hooked.add(relay)
+        this.hook(relay)
+      }
+      return relay
+    }
+  }
+
+  private hook(relay: AbstractRelay): void {
+    const url = relay.url
+    this.setStatus(url, 'none')
+
+    relay._onauth = () => {
+      if (!this.isOptedIn(url)) {
+        this.setStatus(url, 'challenged')
+        return
+      }
+      // Authenticate up front so most requests never see auth-required
+      this.authenticate(relay).catch(() => {
+        // Status already records the failure; requests surface it
+      })
+    }
+
+    const publish = relay.publish.bind(relay)
+    relay.publish = async (event) => {
+      try {
+        return await publish(event)
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err)
+        if (!isAuthRequired(reason) || !this.isOptedIn(url)) throw err
+        // On failure keep the relay's auth-required: reason for the report
+        await this.authenticate(relay).catch(() => { throw err })
+        return publish(event)
+      }
+    }
+
+    const subscribe = relay.subscribe.bind(relay)
+    relay.subscribe = (filters, params) => {
+      // After AUTH the REQ goes out again as a new subscription with the
+      // same callbacks; the caller's handle closes whichever one is live
+      let retry: ReturnType<typeof subscribe> | null = null
+      let retrying = false
+      let closedByCaller = false
+      let finished = false
+
+      // Until a retry takes over, report the close exactly once
+      const finish = (reason: string) => {
+        if (finished) return
+        finished = true
+        params.onclose?.(reason)
+      }
+
+      const sub = subscribe(filters, {
+        ...params,
+        // The refused REQ's EOSE timer still runs; the retry reports EOSE
+        oneose: () => {
+          if (!retrying) params.oneose?.()
+        },
+        onclose: (reason) => {
+          if (retrying) return
+          if (closedByCaller || !isAuthRequired(reason) || !this.isOptedIn(url)) {
+            finish(reason)
+            return
+          }
+
+          retrying = true
+          this.authenticate(relay).then(() => {
+            if (finished) return
+            if (!relay.connected) {
+              finish(reason)
+              return
+            }
+            retry = subscribe(filters, params)
+          }, () => finish(reason))
+        }
+      })
+
+      const close = sub.close.bind(sub)
+      sub.close = (reason = 'closed by caller') => {
+        closedByCaller = true
+        if (retry) {
+          retry.close(reason)
+          return
+        }
+        close(reason)
+        // Refused and waiting on AUTH: nothing else will report the close
+        if (retrying) finish(reason)
+      }
+
+      return sub
+    }
+  }
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main() {
+  const pool = new SimplePool()
+  const signer = new LocalKeySigner()
+  const privateRelay = 'wss://private.example.com'
+
+  const auth = new RelayAuthenticator(signer, [privateRelay], {
+    onStatusChange: ({ relay, state, reason }) => console.log('AUTH', relay, state, reason ?? '')
+  })
+  auth.install(pool)
+
+  // Refused with auth-required:, authenticated, then re-sent automatically
+  pool.subscribeMany([privateRelay, 'wss://nos.lol'], [{ kinds: [4], '#p': [await signer.getPublicKey()] }], {
+    onevent: (event) => console.log('DM:', event.id)
+  })
+
+  setTimeout(() => console.table(auth.getAllStatus()), 5000)
+}
+
+// Export
+export { RelayAuthenticator, isAuthRequired, AUTH_REQUIRED }
+export type { AuthPolicy, AuthState, RelayAuthStatus }
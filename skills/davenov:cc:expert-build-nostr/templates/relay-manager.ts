@@ -0,0 +1,430 @@
+/**
+ * Relay Manager Template
+ *
+ * A drop-in SimplePool that tracks connection state per relay,
+ * reconnects with backoff, restores subscriptions after a reconnect,
+ * measures round-trip latency and caches NIP-11 relay information.
+ */
+
+import { SimplePool } from 'nostr-tools/pool'
+import { normalizeURL } from 'nostr-tools/utils'
+import type { Event, Filter } from 'nostr-tools'
+import type { SubCloser, SubscribeManyParams } from 'nostr-tools/pool'
+import type { AbstractRelay } from 'nostr-tools/abstract-relay'
+import type { RelayInformation } from 'nostr-tools/nip11'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type ConnectionState = 'idle' | 'connecting' | 'connected' | 'disconnected' | 'error'
+
+interface RelayStatus {
+  url: string
+  state: ConnectionState
+  // Last REQ -> EOSE round trip
+  latencyMs?: number
+  lastError?: string
+  lastConnectedAt?: number
+  reconnectAttempts: number
+}
+
+interface RelayEvents {
+  connected: (url: string) => void
+  disconnected: (url: string) => void
+  error: (url: string, error: string) => void
+}
+
+interface RelayManagerOptions {
+  // First reconnect delay; doubles up to maxReconnectDelayMs
+  reconnectDelayMs?: number
+  maxReconnectDelayMs?: number
+  // 0 disables periodic latency checks
+  pingIntervalMs?: number
+  // How long NIP-11 documents are cached
+  infoTtlMs?: number
+  // Inject to fetch NIP-11 through a proxy or a local stand-in
+  fetch?: typeof fetch
+}
+
+interface TrackedSubscription {
+  requests: Record<string, Filter[]>
+  onevent: (event: Event) => void
+  closers: SubCloser[]
+}
+
+// Event ids remembered per subscription to drop replayed history. A
+// replay older than this many events can slip through again, which
+// beats a set that grows for as long as the subscription lives
+const MAX_SEEN_EVENTS = 10000
+
+// ============================================================================
+// Relay Manager
+// ============================================================================
+
+class RelayManager extends SimplePool {
+  private status = new Map<string, RelayStatus>()
+  private listeners: { [K in keyof RelayEvents]: Set<RelayEvents[K]> } = {
+    connected: new Set(),
+    disconnected: new Set(),
+    error: new Set()
+  }
+  private reconnectTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  private tracked = new Set<TrackedSubscription>()
+  private info = new Map<string, { info: RelayInformation | null; fetchedAt: number }>()
+  private pingTimer: ReturnType<typeof setInterval> | null = null
+  private options: Required<Omit<RelayManagerOptions, 'fetch'>> & { fetch?: typeof fetch }
+
+  constructor(options: RelayManagerOptions = {}) {
+    super()
+    this.options = {
+      reconnectDelayMs: options.reconnectDelayMs ?? 1000,
+      maxReconnectDelayMs: options.maxReconnectDelayMs ?? 60000,
+      pingIntervalMs: options.pingIntervalMs ?? 30000,
+      infoTtlMs: options.infoTtlMs ?? 60 * 60 * 1000,
+      fetch: options.fetch
+    }
+
+    if (this.options.pingIntervalMs > 0) {
+      this.pingTimer = setInterval(() => this.pingAll(), this.options.pingIntervalMs)
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Events
+  // -------------------------------------------------------------------------
+
+  on<K extends keyof RelayEvents>(event: K, listener: RelayEvents[K]): () => void {
+    this.listeners[event].add(listener)
+    return () => { this.listeners[event].delete(listener) }
+  }
+
+  private emit<K extends keyof RelayEvents>(event: K, ...args: Parameters<RelayEvents[K]>): void {
+    this.listeners[event].forEach(listener => {
+      (listener as (...a: Parameters<RelayEvents[K]>) => void)(...args)
+    })
+  }
+
+  // -------------------------------------------------------------------------
+  // Connection State
+  // -------------------------------------------------------------------------
+
+  getStatus(url: string): RelayStatus {
+    const normalized = normalizeURL(url)
+    return this.status.get(normalized) ?? { url: normalized, state: 'idle', reconnectAttempts: 0 }
+  }
+
+  getAllStatus(): RelayStatus[] {
+    return [...this.status.values()]
+  }
+
+  private updateStatus(url: string, update: Partial<RelayStatus>): RelayStatus {
+    const next = { ...this.getStatus(url), ...update }
+    this.status.set(url, next)
+    return next
+  }
+
+  async ensureRelay(url: string, params?: { connectionTimeout?: number }): Promise<AbstractRelay> {
+    url = normalizeURL(url)
+    const existing = this.relays.get(url)
+    if (existing?.connected) return existing
+
+    this.updateStatus(url, { state: 'connecting' })
+
+    try {
+      const relay = await super.ensureRelay(url, params)
+      this.handleConnected(url, relay)
+      return relay
+    } catch (err) {
+      // A relay whose first connect failed never retries; start fresh
+      this.relays.delete(url)
+      this.handleFailure(url, 'error', err instanceof Error ? err.message : String(err))
+      throw err
+    }
+  }
+
+  private handleConnected(url: string, relay: AbstractRelay): void {
+    const wasConnected = this.getStatus(url).state === 'connected'
+    if (wasConnected) return
+
+    const hadDropped = this.getStatus(url).reconnectAttempts > 0
+    this.updateStatus(url, {
+      state: 'connected',
+      lastConnectedAt: Date.now(),
+      reconnectAttempts: 0,
+      lastError: undefined
+    })
+
+    relay.onclose = () => {
+      this.relays.delete(url)
+      this.handleFailure(url, 'disconnected')
+    }
+
+    this.emit('connected', url)
+    if (hadDropped) this.restoreSubscriptions(url)
+  }
+
+  private handleFailure(url: string, state: 'disconnected' | 'error', error?: string): void {
+    const status = this.updateStatus(url, { state, lastError: error })
+
+    if (state === 'error') this.emit('error', url, error ?? 'unknown error')
+    else this.emit('disconnected', url)
+
+    this.scheduleReconnect(url, status.reconnectAttempts)
+  }
+
+  private scheduleReconnect(url: string, attempts: number): void {
+    if (this.reconnectTimers.has(url)) return
+
+    // Only fight to keep relays someone is still using
+    const inUse = [...this.tracked].some(sub => url in sub.requests)
+    if (!inUse) return
+
+    const delay = Math.min(
+      this.options.reconnectDelayMs * 2 ** attempts,
+      this.options.maxReconnectDelayMs
+    )
+
+    this.reconnectTimers.set(url, setTimeout(() => {
+      this.reconnectTimers.delete(url)
+      this.updateStatus(url, { reconnectAttempts: attempts + 1 })
+      this.ensureRelay(url).catch(() => {
+        // handleFailure already scheduled the next attempt
+      })
+    }, delay))
+  }
+
+  // -------------------------------------------------------------------------
+  // Subscriptions
+  // -------------------------------------------------------------------------
+
+  /**
+   * Same as SimplePool.subscribeManyMap (and so subscribeMany), but the
+   * subscription is reopened on any relay that drops and reconnects
+   * while it is active.
+   */
+  subscribeManyMap(requests: Record<string, Filter[]>, params: SubscribeManyParams): SubCloser {
+    // normalizeURL throws on a malformed URL; report those as closed
+    // instead of failing the whole subscription
+    const valid: Record<string, Filter[]> = {}
+    const invalid: string[] = []
+    for (const [url, filters] of Object.entries(requests)) {
+      try {
+        valid[normalizeURL(url)] = filters
+      } catch {
+        invalid.push(`invalid relay URL: ${url}`)
+      }
+    }
+
+    if (Object.keys(valid).length === 0) {
+      queueMicrotask(() => {
+        params.oneose?.()
+        params.onclose?.(invalid)
+      })
+      return { close: () => {} }
+    }
+
+    const seen = new Set<string>()
+    const tracked: TrackedSubscription = {
+      requests: valid,
+      onevent: (event) => {
+        // Restored subscriptions replay history; only pass on new events
+        if (seen.has(event.id)) return
+        seen.add(event.id)
+        if (seen.size > MAX_SEEN_EVENTS) seen.delete(seen.values().next().value!)
+        params.onevent?.(event)
+      },
+      closers: []
+    }
+
+    this.tracked.add(tracked)
+    tracked.closers.push(super.subscribeManyMap(valid, {
+      ...params,
+      onevent: tracked.onevent,
+      onclose: params.onclose && ((reasons) => params.onclose!([...reasons, ...invalid]))
+    }))
+
+    return {
+      close: () => {
+        this.tracked.delete(tracked)
+        tracked.closers.forEach(closer => closer.close())
+      }
+    }
+  }
+
+  private restoreSubscriptions(url: string): void {
+    this.tracked.forEach(sub => {
+      const filters = sub.requests[url]
+      if (!filters) return
+      sub.closers.push(super.subscribeManyMap({ [url]: filters }, { onevent: sub.onevent }))
+    })
+  }
+
+  // -------------------------------------------------------------------------
+  // Latency
+  // -------------------------------------------------------------------------
+
+  /**
+   * Time a REQ that matches nothing until its EOSE arrives.
+   */
+  async ping(url: string, timeoutMs = 5000): Promise<number> {
+    url = normalizeURL(url)
+    const relay = await this.ensureRelay(url)
+    const started = Date.now()
+
+    const latencyMs = await new Promise<number>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        sub.close()
+        reject(new Error('ping timed out'))
+      }, timeoutMs)
+
+      const sub = relay.subscribe([{ ids: ['0'.repeat(64)], limit: 1 }], {
+        oneose: () => {
+          clearTimeout(timer)
+          sub.close()
+          resolve(Date.now() - started)
+        }
+      })
+    })
+
+    this.updateStatus(url, { latencyMs })
+    return latencyMs
+  }
+
+  private pingAll(): void {
+    this.status.forEach(status => {
+      if (status.state !== 'connected') return
+      this.ping(status.url).catch(err => {
+        this.updateStatus(status.url, { lastError: String(err) })
+        this.emit('error', status.url, String(err))
+      })
+    })
+  }
+
+  // -------------------------------------------------------------------------
+  // NIP-11 Relay Information
+  // -------------------------------------------------------------------------
+
+  async getRelayInfo(url: string): Promise<RelayInformation | null> {
+    url = normalizeURL(url)
+    const cached = this.info.get(url)
+    if (cached && Date.now() - cached.fetchedAt < this.options.infoTtlMs) {
+      return cached.info
+    }
+
+    let info: RelayInformation | null = null
+    try {
+      const fetchImpl = this.options.fetch ?? fetch
+      const res = await fetchImpl(url.replace(/^ws/, 'http'), {
+        headers: { Accept: 'application/nostr+json' },
+        signal: AbortSignal.timeout(5000)
+      })
+      if (res.ok) info = await res.json() as RelayInformation
+    } catch {
+      // Many relays don't serve NIP-11; treat as unknown
+    }
+
+    this.info.set(url, { info, fetchedAt: Date.now() })
+    return info
+  }
+
+  async supportsNip(url: string, nip: number): Promise<boolean | null> {
+    const info = await this.getRelayInfo(url)
+    return info?.supported_nips ? info.supported_nips.includes(nip) : null
+  }
+
+  /**
+   * Why a relay would refuse this event based on its advertised
+   * limits, or null if it should be accepted (or limits are unknown).
+   */
+  async checkEventLimits(url: string, event: Event): Promise<string | null> {
+    const limits = (await this.getRelayInfo(url))?.limitation
+    if (!limits) return null
+
+    const size = new TextEncoder().encode(JSON.stringify(['EVENT', event])).length
+    if (limits.max_message_length && size > limits.max_message_length) {
+      return `message is ${size} bytes, relay allows ${limits.max_message_length}`
+    }
+    if (limits.max_content_length && [...event.content].length > limits.max_content_length) {
+      return `content exceeds ${limits.max_content_length} characters`
+    }
+    if (limits.max_event_tags && event.tags.length > limits.max_event_tags) {
+      return `event has ${event.tags.length} tags, relay allows ${limits.max_event_tags}`
+    }
+    return null
+  }
+
+  /**
+   * Keep relays that advertise the required NIPs and would accept the
+   * event. Relays without a NIP-11 document are kept.
+   */
+  async selectRelays(urls: string[], requirements: { nips?: number[]; event?: Event } = {}): Promise<string[]> {
+    const checks = await Promise.all(urls.map(async url => {
+      for (const nip of requirements.nips ?? []) {
+        if (await this.supportsNip(url, nip) === false) return false
+      }
+      if (requirements.event && await this.checkEventLimits(url, requirements.event)) return false
+      return true
+    }))
+
+    return urls.filter((_, i) => checks[i])
+  }
+
+  // -------------------------------------------------------------------------
+  // Cleanup
+  // -------------------------------------------------------------------------
+
+  close(relays: string[]): void {
+    relays.map(normalizeURL).forEach(url => {
+      clearTimeout(this.reconnectTimers.get(url))
+      this.reconnectTimers.delete(url)
+      this.updateStatus(url, { state: 'idle', reconnectAttempts: 0 })
+
+      // A deliberate close is not a drop: no event, no reconnect
+      const relay = this.relays.get(url)
+      if (relay) relay.onclose = null
+      relay?.close()
+
+      // A closed relay keeps its stale connection promise; forget it
+      this.relays.delete(url)
+    })
+  }
+
+  destroy(): void {
+    if (this.pingTimer) clearInterval(this.pingTimer)
+    this.reconnectTimers.forEach(timer => clearTimeout(timer))
+    this.reconnectTimers.clear()
+    this.tracked.clear()
+    this.relays.forEach(relay => { relay.onclose = null })
+    this.status.clear()
+    super.destroy()
+  }
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main() {
+  const manager = new RelayManager({ pingIntervalMs: 15000 })
+  const relays = ['wss://relay.damus.io', 'wss://nos.lol', 'wss://relay.nostr.band']
+
+  manager.on('connected', url => console.log('Connected:', url))
+  manager.on('disconnected', url => console.log('Lost:', url))
+  manager.on('error', (url, error) => console.warn('Error:', url, error))
+
+  // Survives relay restarts
+  manager.subscribeMany(relays, [{ kinds: [1], since: Math.floor(Date.now() / 1000) }], {
+    onevent: (event) => console.log('Note:', event.id)
+  })
+
+  // Only relays that support NIP-50 search
+  const searchRelays = await manager.selectRelays(relays, { nips: [50] })
+  console.log('Search relays:', searchRelays)
+
+  setInterval(() => console.table(manager.getAllStatus()), 30000)
+}
+
+// Export
+export { RelayManager }
+export type { RelayStatus, ConnectionState, RelayEvents, RelayManagerOptions }
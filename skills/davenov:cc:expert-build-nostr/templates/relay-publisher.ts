@@ -0,0 +1,244 @@
+/**
+ * Relay Publisher Template
+ *
+ * Publishes an event to every relay and reports what each one said:
+ * accepted, rejected (with the relay's reason) or timed out.
+ * Transient failures are retried with exponential backoff.
+ */
+
+import { SimplePool } from 'nostr-tools/pool'
+import type { Event } from 'nostr-tools'
+import type { AbstractRelay } from 'nostr-tools/abstract-relay'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type RelayPublishStatus = 'accepted' | 'rejected' | 'timeout'
+
+interface RelayPublishResult {
+  relay: string
+  status: RelayPublishStatus
+  // OK message from the relay, e.g. "rate-limited: slow down", or its
+  // last NOTICE when it never sent one
+  reason?: string
+  // NOTICEs the relay sent while we were publishing, across attempts
+  notices: string[]
+  attempts: number
+}
+
+interface PublishReport {
+  event: Event
+  results: RelayPublishResult[]
+  accepted: string[]
+  // At least `minAcceptances` relays accepted the event. Only false on
+  // PublishError's report, since publishToRelays throws otherwise
+  ok: boolean
+  // Every relay accepted the event
+  complete: boolean
+}
+
+interface PublishPolicy {
+  // Relays that must accept before publish counts as successful
+  minAcceptances: number
+  // Per relay, per attempt
+  timeoutMs: number
+  // Extra attempts for transient failures (timeouts, rate limits, errors)
+  retries: number
+  // First retry delay; doubles on every attempt
+  backoffMs: number
+}
+
+const DEFAULT_PUBLISH_POLICY: PublishPolicy = {
+  minAcceptances: 1,
+  timeoutMs: 5000,
+  retries: 2,
+  backoffMs: 500
+}
+
+// NIP-01 OK prefixes that will not change if we try again
+// (auth-required: is retried by RelayAuthenticator, not by backoff)
+const PERMANENT_REJECTIONS = ['invalid:', 'blocked:', 'pow:', 'restricted:', 'auth-required:']
+
+// The relay already has the event, which is what we wanted
+const DUPLICATE_PREFIX = 'duplicate:'
+
+class PublishError extends Error {
+  readonly report: PublishReport
+
+  constructor(report: PublishReport, minAcceptances: number) {
+    const summary = report.results
+      .map(r => `${r.relay}: ${r.status}${r.reason ? ` (${r.reason})` : ''}`)
+      .join(', ')
+    super(`Published to ${report.accepted.length}/${minAcceptances} required relays - ${summary}`)
+    this.name = 'PublishError'
+    this.report = report
+  }
+}
+
+// ============================================================================
+// Publishing
+// ============================================================================
+
+class PublishTimeoutError extends Error {}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new PublishTimeoutError(`timed out after ${ms}ms`)), ms)
+    promise.then(
+      value => { clearTimeout(timer); resolve(value) },
+      err => { clearTimeout(timer); reject(err) }
+    )
+  })
+}
+
+// One onnotice handler per relay, shared by concurrent publishes
+const noticeListeners = new WeakMap<AbstractRelay, Set<(notice: string) => void>>()
+
+function listenForNotices(relay: AbstractRelay, listener: (notice: string) => void): () => void {
+  let listeners = noticeListeners.get(relay)
+  if (!listeners) {
+    const current = new Set<(notice: string) => void>()
+    const previous = relay.onnotice
+    relay.onnotice = (notice) => {
+      current.forEach(l => l(notice))
+      previous.call(relay, notice)
+    }
+    noticeListeners.set(relay, current)
+    listeners = current
+  }
+
+  const registered = listeners
+  registered.add(listener)
+  return () => { registered.delete(listener) }
+}
+
+function isTransient(result: RelayPublishResult): boolean {
+  if (result.status === 'timeout') return true
+  if (result.status === 'accepted') return false
+  return !PERMANENT_REJECTIONS.some(prefix => result.reason?.startsWith(prefix))
+}
+
+async function publishOnce(
+  pool: SimplePool,
+  url: string,
+  event: Event,
+  timeoutMs: number
+): Promise<Omit<RelayPublishResult, 'attempts'>> {
+  const notices: string[] = []
+  let stopListening = () => {}
+  let settled = false
+
+  try {
+    const reason = await withTimeout(
+      pool.ensureRelay(url).then(relay => {
+        // Connected after the timeout: nobody is left to remove a listener
+        if (!settled) stopListening = listenForNotices(relay, notice => notices.push(notice))
+        return relay.publish(event)
+      }),
+      timeoutMs
+    )
+    return { relay: url, status: 'accepted', reason: reason || undefined, notices }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    if (message.startsWith(DUPLICATE_PREFIX)) {
+      return { relay: url, status: 'accepted', reason: message, notices }
+    }
+    const timedOut = err instanceof PublishTimeoutError || message === 'publish timed out'
+    // A relay that answers with a NOTICE instead of OK has still told
+    // us why
+    const reason = timedOut && notices.length > 0 ? notices[notices.length - 1] : message
+    return { relay: url, status: timedOut ? 'timeout' : 'rejected', reason, notices }
+  } finally {
+    settled = true
+    stopListening()
+  }
+}
+
+async function publishToRelay(
+  pool: SimplePool,
+  url: string,
+  event: Event,
+  policy: PublishPolicy
+): Promise<RelayPublishResult> {
+  let attempts = 0
+  const notices: string[] = []
+
+  while (true) {
+    attempts++
+    const once = await publishOnce(pool, url, event, policy.timeoutMs)
+    notices.push(...once.notices)
+    const result: RelayPublishResult = { ...once, notices, attempts }
+
+    if (!isTransient(result) || attempts > policy.retries) {
+      return result
+    }
+
+    const delay = policy.backoffMs * 2 ** (attempts - 1)
+    await new Promise(r => setTimeout(r, delay))
+  }
+}
+
+/**
+ * Publish to all relays in parallel and collect a per-relay report.
+ * Throws PublishError (carrying the report) when fewer than
+ * `minAcceptances` relays accepted the event.
+ */
+async function publishToRelays(
+  pool: SimplePool,
+  relays: string[],
+  event: Event,
+  policy: Partial<PublishPolicy> = {}
+): Promise<PublishReport> {
+  const resolved = { ...DEFAULT_PUBLISH_POLICY, ...policy }
+
+  const results = await Promise.all(
+    relays.map(url => publishToRelay(pool, url, event, resolved))
+  )
+
+  const accepted = results.filter(r => r.status === 'accepted').map(r => r.relay)
+  const report: PublishReport = {
+    event,
+    results,
+    accepted,
+    ok: accepted.length >= resolved.minAcceptances,
+    complete: accepted.length === results.length
+  }
+
+  if (!report.ok) {
+    throw new PublishError(report, resolved.minAcceptances)
+  }
+
+  return report
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main(event: Event) {
+  const pool = new SimplePool()
+  const relays = ['wss://relay.damus.io', 'wss://nos.lol']
+
+  try {
+    const report = await publishToRelays(pool, relays, event, {
+      minAcceptances: 2,
+      timeoutMs: 3000,
+      retries: 3
+    })
+    console.log(report.complete ? 'Published everywhere' : 'Accepted by:', report.accepted)
+  } catch (err) {
+    if (err instanceof PublishError) {
+      err.report.results
+        .filter(r => r.status !== 'accepted')
+        .forEach(r => console.warn(`${r.relay} ${r.status} after ${r.attempts} attempts:`, r.reason, r.notices))
+    }
+  }
+
+  // Cleanup
+  // pool.close(relays)
+}
+
+// Export
+export { publishToRelays, PublishError, DEFAULT_PUBLISH_POLICY }
+export type { PublishReport, PublishPolicy, RelayPublishResult, RelayPublishStatus }
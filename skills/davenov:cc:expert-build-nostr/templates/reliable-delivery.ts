@@ -0,0 +1,360 @@
+/**
+ * Reliable Delivery Template
+ *
+ * Sequence numbers, acks and retransmission for targeted PubSubHandler
+ * messages, which otherwise travel as ephemeral events and are lost
+ * if the peer drops off for a moment. Receivers deliver each sender's
+ * messages in order, holding early ones until the gap fills or a
+ * timeout gives up on it.
+ */
+
+import type { Event } from 'nostr-tools'
+import { PublishError } from './relay-publisher'
+import type { PublishReport } from './relay-publisher'
+import type { PowOptions } from './pow'
+import type { AckMessage, DataMessage } from './pubsub-handler'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ReliableDeliveryOptions {
+  // First retransmit after this long; doubles each attempt
+  retryDelayMs?: number
+  maxRetryDelayMs?: number
+  // Including the first send
+  maxAttempts?: number
+  // How long early messages wait for a missing one before it is skipped
+  gapTimeoutMs?: number
+  // A regular (stored) kind for reliable messages, so a peer that was
+  // offline can replay them with `since`. Default: the handler's kind
+  storedKind?: number
+  // Stream positions saved with getReplayCursor() by a previous run
+  resumeFrom?: ReplayCursor
+  onGap?: (gap: DeliveryGap) => void
+  // Retransmits ran out without an ack
+  onUndelivered?: (targetPk: string, message: DataMessage) => void
+}
+
+interface DeliveryGap {
+  sender: string
+  stream: string
+  // Sequence numbers skipped, inclusive
+  from: number
+  to: number
+}
+
+interface ReplayCursor {
+  // created_at of the newest delivered message, for `since`
+  since: number
+  // Last delivered seq per `${sender}:${stream}`
+  streams: Record<string, number>
+}
+
+interface ReliableTransport {
+  send(targetPk: string, message: DataMessage | AckMessage, options?: { pow?: PowOptions }): Promise<PublishReport>
+  deliver(event: Event, message: DataMessage): void
+}
+
+interface PendingMessage {
+  message: DataMessage & { seq: number }
+  options: { pow?: PowOptions }
+  attempts: number
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+// One sender-to-recipient sequence; a new id per handler instance
+interface OutboundStream {
+  id: string
+  nextSeq: number
+  unacked: Map<number, PendingMessage>
+}
+
+interface InboundStream {
+  sender: string
+  id: string
+  // Next seq to deliver
+  next: number
+  buffer: Map<number, { event: Event; message: DataMessage }>
+  gapTimer: ReturnType<typeof setTimeout> | null
+  lastActive: number
+}
+
+// Senders choose stream ids, so inbound streams are capped, least
+// recently active first. A stream idle longer than the freshness
+// window can only get stale retransmits, which are dropped anyway
+const MAX_STREAMS_PER_SENDER = 16
+const MAX_INBOUND_STREAMS = 1000
+const STREAM_IDLE_MS = 10 * 60 * 1000
+
+// ============================================================================
+// Reliable Delivery
+// ============================================================================
+
+class ReliableDelivery {
+  private transport: ReliableTransport
+  private options: Required<Omit<ReliableDeliveryOptions, 'storedKind' | 'resumeFrom' | 'onGap' | 'onUndelivered'>>
+  private onGap?: (gap: DeliveryGap) => void
+  private onUndelivered?: (targetPk: string, message: DataMessage) => void
+  private outbound = new Map<string, OutboundStream>()
+  private inbound = new Map<string, InboundStream>()
+  private resumed: Record<string, number>
+  private since: number
+
+  constructor(transport: ReliableTransport, options: ReliableDeliveryOptions = {}) {
+    this.transport = transport
+    this.options = {
+      retryDelayMs: options.retryDelayMs ?? 1000,
+      maxRetryDelayMs: options.maxRetryDelayMs ?? 30000,
+      maxAttempts: options.maxAttempts ?? 8,
+      gapTimeoutMs: options.gapTimeoutMs ?? 10000
+    }
+    this.onGap = options.onGap
+    this.onUndelivered = options.onUndelivered
+    this.resumed = { ...options.resumeFrom?.streams }
+    this.since = options.resumeFrom?.since ?? 0
+  }
+
+  // Where a resumed subscription should start, if a cursor was given
+  get resumeSince(): number | undefined {
+    return this.since || undefined
+  }
+
+  // -------------------------------------------------------------------------
+  // Sending
+  // -------------------------------------------------------------------------
+
+  /**
+   * Send with the next sequence number and keep retransmitting until
+   * acked. Resolves with the first attempt's report; a first attempt
+   * no relay took is retried like a lost one rather than thrown.
+   */
+  async send(targetPk: string, payload: unknown, options: { pow?: PowOptions } = {}): Promise<PublishReport> {
+    let stream = this.outbound.get(targetPk)
+    if (!stream) {
+      stream = { id: crypto.randomUUID(), nextSeq: 0, unacked: new Map() }
+      this.outbound.set(targetPk, stream)
+    }
+
+    const pending: PendingMessage = {
+      message: {
+        version: 1,
+        type: 'data',
+        timestamp: Date.now(),
+        payload,
+        stream: stream.id,
+        seq: stream.nextSeq++
+      },
+      options,
+      attempts: 0,
+      timer: null
+    }
+    stream.unacked.set(pending.message.seq, pending)
+
+    return this.transmit(targetPk, stream, pending)
+  }
+
+  private async transmit(targetPk: string, stream: OutboundStream, pending: PendingMessage): Promise<PublishReport> {
+    pending.attempts++
+    // Restamped so late retransmits stay inside the receiver's
+    // freshness window; stream and seq still identify the message
+    pending.message.timestamp = Date.now()
+    const delay = Math.min(
+      this.options.retryDelayMs * 2 ** (pending.attempts - 1),
+      this.options.maxRetryDelayMs
+    )
+    pending.timer = setTimeout(() => this.retry(targetPk, stream, pending), delay)
+
+    try {
+      return await this.transport.send(targetPk, pending.message, pending.options)
+    } catch (err) {
+      if (err instanceof PublishError) return err.report
+      throw err
+    }
+  }
+
+  private retry(targetPk: string, stream: OutboundStream, pending: PendingMessage): void {
+    if (!stream.unacked.has(pending.message.seq)) return
+
+    if (pending.attempts >= this.options.maxAttempts) {
+      stream.unacked.delete(pending.message.seq)
+      this.onUndelivered?.(targetPk, pending.message)
+      return
+    }
+    this.transmit(targetPk, stream, pending).catch(() => {
+      // Next retry is already scheduled
+    })
+  }
+
+  // Acks are cumulative: everything up to `seq` arrived
+  handleAck(sender: string, ack: AckMessage): void {
+    const stream = this.outbound.get(sender)
+    if (!stream || stream.id !== ack.stream) return
+
+    stream.unacked.forEach((pending, seq) => {
+      if (seq > ack.seq) return
+      if (pending.timer) clearTimeout(pending.timer)
+      stream.unacked.delete(seq)
+    })
+  }
+
+  // -------------------------------------------------------------------------
+  // Receiving
+  // -------------------------------------------------------------------------
+
+  receive(event: Event, message: DataMessage): void {
+    if (message.stream === undefined || message.seq === undefined) {
+      this.transport.deliver(event, message)
+      return
+    }
+
+    const key = `${event.pubkey}:${message.stream}`
+    let stream = this.inbound.get(key)
+    if (stream) {
+      // Keep the map in order of activity, oldest first
+      this.inbound.delete(key)
+    } else {
+      this.makeRoomFor(event.pubkey)
+      const last = this.resumed[key]
+      stream = {
+        sender: event.pubkey,
+        id: message.stream,
+        next: last === undefined ? 0 : last + 1,
+        buffer: new Map(),
+        gapTimer: null,
+        lastActive: 0
+      }
+    }
+    stream.lastActive = Date.now()
+    this.inbound.set(key, stream)
+
+    // Older than what we delivered: a retransmit whose ack got lost
+    if (message.seq >= stream.next && !stream.buffer.has(message.seq)) {
+      stream.buffer.set(message.seq, { event, message })
+      this.drain(stream)
+    }
+    this.sendAck(stream)
+  }
+
+  private makeRoomFor(sender: string): void {
+    const idleBefore = Date.now() - STREAM_IDLE_MS
+    let fromSender = 0
+    let oldestFromSender: string | null = null
+
+    for (const [key, stream] of this.inbound) {
+      if (stream.lastActive < idleBefore) {
+        this.dropStream(key)
+        continue
+      }
+      if (stream.sender !== sender) continue
+      fromSender++
+      oldestFromSender ??= key
+    }
+
+    if (oldestFromSender && fromSender >= MAX_STREAMS_PER_SENDER) this.dropStream(oldestFromSender)
+    if (this.inbound.size >= MAX_INBOUND_STREAMS) this.dropStream(this.inbound.keys().next().value!)
+  }
+
+  private dropStream(key: string): void {
+    const stream = this.inbound.get(key)
+    if (stream?.gapTimer) clearTimeout(stream.gapTimer)
+    this.inbound.delete(key)
+  }
+
+  private drain(stream: InboundStream): void {
+    let entry = stream.buffer.get(stream.next)
+    while (entry) {
+      stream.buffer.delete(stream.next)
+      stream.next++
+      this.since = Math.max(this.since, entry.event.created_at)
+      this.transport.deliver(entry.event, entry.message)
+      entry = stream.buffer.get(stream.next)
+    }
+
+    if (stream.buffer.size === 0) {
+      if (stream.gapTimer) clearTimeout(stream.gapTimer)
+      stream.gapTimer = null
+    } else if (!stream.gapTimer) {
+      stream.gapTimer = setTimeout(() => this.skipGap(stream), this.options.gapTimeoutMs)
+    }
+  }
+
+  // The missing messages are not coming; move on to what we have
+  private skipGap(stream: InboundStream): void {
+    stream.gapTimer = null
+    const resumeAt = Math.min(...stream.buffer.keys())
+    this.onGap?.({ sender: stream.sender, stream: stream.id, from: stream.next, to: resumeAt - 1 })
+
+    stream.next = resumeAt
+    this.drain(stream)
+    this.sendAck(stream)
+  }
+
+  private sendAck(stream: InboundStream): void {
+    if (stream.next === 0) return
+    const ack: AckMessage = {
+      version: 1,
+      type: 'ack',
+      timestamp: Date.now(),
+      stream: stream.id,
+      seq: stream.next - 1
+    }
+    // A lost ack only costs a retransmit, which is acked again
+    this.transport.send(stream.sender, ack).catch(() => {})
+  }
+
+  // -------------------------------------------------------------------------
+  // State
+  // -------------------------------------------------------------------------
+
+  // Save this and pass it back as `resumeFrom` to pick up after a restart
+  getReplayCursor(): ReplayCursor {
+    const streams = { ...this.resumed }
+    this.inbound.forEach((stream, key) => {
+      if (stream.next > 0) streams[key] = stream.next - 1
+    })
+    return { since: this.since, streams }
+  }
+
+  getStats(): { unacked: number; buffered: number } {
+    let unacked = 0
+    let buffered = 0
+    this.outbound.forEach(stream => { unacked += stream.unacked.size })
+    this.inbound.forEach(stream => { buffered += stream.buffer.size })
+    return { unacked, buffered }
+  }
+
+  close(): void {
+    this.outbound.forEach(stream => stream.unacked.forEach(p => p.timer && clearTimeout(p.timer)))
+    this.inbound.forEach(stream => stream.gapTimer && clearTimeout(stream.gapTimer))
+    this.outbound.clear()
+    this.inbound.clear()
+  }
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main() {
+  const { PubSubHandler } = await import('./pubsub-handler')
+
+  // Both peers need reliable mode: one acks, the other retransmits.
+  // Kind 4500 is stored, so messages sent while Bob is away wait for him
+  const reliable = { storedKind: 4500, onGap: (gap: DeliveryGap) => console.warn('Lost:', gap) }
+  const alice = new PubSubHandler({ namespace: 'myapp', reliable })
+  const bob = new PubSubHandler({ namespace: 'myapp', reliable })
+
+  bob.subscribeToMe((data, from) => console.log('In order from', from.slice(0, 8), data))
+
+  const bobPk = await bob.getPublicKey()
+  for (let i = 0; i < 3; i++) await alice.sendTo(bobPk, { step: i })
+
+  // Persist on shutdown; pass back as `reliable.resumeFrom` next run
+  const cursor = bob.getReplayCursor()
+  console.log('Resume from:', cursor)
+}
+
+// Export
+export { ReliableDelivery }
+export type { ReliableDeliveryOptions, ReliableTransport, DeliveryGap, ReplayCursor }
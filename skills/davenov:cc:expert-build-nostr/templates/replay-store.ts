@@ -0,0 +1,160 @@
+/**
+ * Replay Store Template
+ *
+ * Remembers the ids of events already processed, by created_at, so a
+ * relay resending them is ignored. Paired with a freshness window it
+ * only has to cover that window: anything older is rejected as stale
+ * anyway. The JSONL store keeps that protection across restarts.
+ */
+
+import { appendFile, readFile, writeFile } from 'node:fs/promises'
+
+// ============================================================================
+// Store Interface
+// ============================================================================
+
+interface ReplayStore {
+  // Record `id`; resolves false if it was already there
+  add(id: string, createdAt: number): Promise<boolean>
+  // Forget ids created before this Unix time
+  prune(before: number): Promise<void>
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+class MemoryReplayStore implements ReplayStore {
+  protected seen = new Map<string, number>()
+
+  async add(id: string, createdAt: number): Promise<boolean> {
+    return this.insert(id, createdAt)
+  }
+
+  // Synchronous, so copies of one event from several relays can't race
+  protected insert(id: string, createdAt: number): boolean {
+    if (this.seen.has(id)) return false
+    this.seen.set(id, createdAt)
+    return true
+  }
+
+  async prune(before: number): Promise<void> {
+    this.remove(before)
+  }
+
+  protected remove(before: number): number {
+    let removed = 0
+    this.seen.forEach((createdAt, id) => {
+      if (createdAt >= before) return
+      this.seen.delete(id)
+      removed++
+    })
+    return removed
+  }
+
+  get size(): number {
+    return this.seen.size
+  }
+}
+
+// ============================================================================
+// JSONL Store (Node)
+// ============================================================================
+
+/**
+ * Appends `[id, created_at]` per line. Pruned ids stay in the file
+ * until they outnumber the live ones, then it is rewritten.
+ */
+class JsonlReplayStore extends MemoryReplayStore {
+  private path: string
+  private dead = 0
+  // Appends and rewrites run one at a time, so a compaction can't
+  // overwrite an append still in flight
+  private writes: Promise<void> = Promise.resolve()
+
+  private constructor(path: string) {
+    super()
+    this.path = path
+  }
+
+  static async open(path: string): Promise<JsonlReplayStore> {
+    const store = new JsonlReplayStore(path)
+
+    let content = ''
+    try {
+      content = await readFile(path, 'utf8')
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue
+      try {
+        const [id, createdAt] = JSON.parse(line) as [string, number]
+        if (!store.insert(id, createdAt)) store.dead++
+      } catch {
+        // Skip a torn last line from an interrupted write
+      }
+    }
+
+    return store
+  }
+
+  async add(id: string, createdAt: number): Promise<boolean> {
+    if (!this.insert(id, createdAt)) return false
+    try {
+      await this.enqueue(() => appendFile(this.path, JSON.stringify([id, createdAt]) + '\n'))
+    } catch (err) {
+      // Not on disk, so not seen: a copy from another relay can try again
+      this.seen.delete(id)
+      throw err
+    }
+    return true
+  }
+
+  async prune(before: number): Promise<void> {
+    this.dead += this.remove(before)
+    if (this.dead > 1000 && this.dead > this.seen.size) {
+      await this.compact()
+    }
+  }
+
+  async compact(): Promise<void> {
+    await this.enqueue(async () => {
+      // Snapshot when the rewrite runs, after every earlier append
+      const lines = [...this.seen].map(entry => JSON.stringify(entry) + '\n')
+      this.dead = 0
+      await writeFile(this.path, lines.join(''))
+    })
+  }
+
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const next = this.writes.then(write)
+    // One failed write mustn't block the ones after it
+    this.writes = next.catch(() => {})
+    return next
+  }
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main() {
+  const { PubSubHandler } = await import('./pubsub-handler')
+
+  // Events replayed by a relay after a restart are still recognized,
+  // as long as they are inside the freshness window
+  const handler = new PubSubHandler({
+    namespace: 'myapp',
+    freshness: { maxAgeSeconds: 600 },
+    replayStore: await JsonlReplayStore.open('./seen-ids.jsonl'),
+    onMessageError: ({ reason, event, error }) => console.warn('Dropped', event.id.slice(0, 8), reason, error.message)
+  })
+
+  handler.subscribeToMe((data) => console.log('Fresh, first time:', data))
+}
+
+// Export
+export { MemoryReplayStore, JsonlReplayStore }
+export type { ReplayStore }
@@ -0,0 +1,259 @@
+/**
+ * RPC Contract Template
+ *
+ * Declares the methods two PubSubHandler peers agree on, with schemas
+ * for params and results and named error codes. The same contract
+ * gives the caller a typed proxy and the server a router, and both
+ * check values at runtime, so schema drift fails with a clear error
+ * on the side that caused it.
+ */
+
+import type { Event } from 'nostr-tools'
+import { RpcError, RPC_ERRORS } from './pubsub-handler'
+import type { PubSubHandler, RequestHandler } from './pubsub-handler'
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * Anything with `parse` that returns the value or throws, so zod and
+ * similar libraries work as-is. The helpers below cover plain JSON.
+ */
+interface Schema<T> {
+  parse(value: unknown): T
+}
+
+type Infer<S> = S extends Schema<infer T> ? T : never
+
+class SchemaError extends Error {
+  constructor(path: string, expected: string, value: unknown) {
+    super(`${path || 'value'}: expected ${expected}, got ${value === null ? 'null' : typeof value}`)
+    this.name = 'SchemaError'
+  }
+}
+
+// Paths are threaded through so errors name the offending field
+type PathSchema<T> = Schema<T> & { parseAt(value: unknown, path: string): T }
+
+function primitive<T>(expected: string, check: (value: unknown) => boolean): PathSchema<T> {
+  const parseAt = (value: unknown, path: string): T => {
+    if (!check(value)) throw new SchemaError(path, expected, value)
+    return value as T
+  }
+  return { parseAt, parse: (value) => parseAt(value, '') }
+}
+
+function parseWith<T>(schema: Schema<T>, value: unknown, path: string): T {
+  const nested = schema as Partial<PathSchema<T>>
+  return nested.parseAt ? nested.parseAt(value, path) : schema.parse(value)
+}
+
+const schema = {
+  string: () => primitive<string>('string', v => typeof v === 'string'),
+  number: () => primitive<number>('number', v => typeof v === 'number' && Number.isFinite(v)),
+  boolean: () => primitive<boolean>('boolean', v => typeof v === 'boolean'),
+  unknown: () => primitive<unknown>('anything', () => true),
+
+  literal<T extends string | number | boolean>(expected: T): PathSchema<T> {
+    return primitive<T>(JSON.stringify(expected), v => v === expected)
+  },
+
+  optional<T>(inner: Schema<T>): PathSchema<T | undefined> {
+    const parseAt = (value: unknown, path: string) => value === undefined ? undefined : parseWith(inner, value, path)
+    return { parseAt, parse: (value) => parseAt(value, '') }
+  },
+
+  array<T>(item: Schema<T>): PathSchema<T[]> {
+    const parseAt = (value: unknown, path: string): T[] => {
+      if (!Array.isArray(value)) throw new SchemaError(path, 'array', value)
+      return value.map((v, i) => parseWith(item, v, `${path}[${i}]`))
+    }
+    return { parseAt, parse: (value) => parseAt(value, '') }
+  },
+
+  // Unknown keys are dropped, so handlers only see declared fields
+  object<S extends Record<string, Schema<unknown>>>(shape: S): PathSchema<{ [K in keyof S]: Infer<S[K]> }> {
+    const parseAt = (value: unknown, path: string) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new SchemaError(path, 'object', value)
+      }
+      const result: Record<string, unknown> = {}
+      for (const [key, field] of Object.entries(shape)) {
+        const parsed = parseWith(field, (value as Record<string, unknown>)[key], path ? `${path}.${key}` : key)
+        if (parsed !== undefined) result[key] = parsed
+      }
+      return result as { [K in keyof S]: Infer<S[K]> }
+    }
+    return { parseAt, parse: (value) => parseAt(value, '') }
+  }
+}
+
+// ============================================================================
+// Contracts
+// ============================================================================
+
+interface MethodSchema<P = unknown, R = unknown> {
+  params: Schema<P>
+  result: Schema<R>
+}
+
+// Schemas only produce values, so every method fits the unknown form
+type MethodMap = Record<string, MethodSchema>
+
+type ParamsOf<M> = M extends MethodSchema<infer P, unknown> ? P : never
+type ResultOf<M> = M extends MethodSchema<unknown, infer R> ? R : never
+
+interface RpcContract<M extends MethodMap, E extends Record<string, number>> {
+  methods: M
+  // Application error codes; keep clear of the JSON-RPC range
+  errors: E
+  // Build the error a handler throws to reply with a declared code
+  error(name: keyof E & string, message: string, data?: unknown): RpcError
+}
+
+// A caller's view: one async function per method
+type RpcClient<M extends MethodMap> = {
+  [K in keyof M]: (params: ParamsOf<M[K]>) => Promise<ResultOf<M[K]>>
+}
+
+interface RpcCallContext {
+  event: Event
+  // Sender's pubkey
+  from: string
+  progress(value: unknown): Promise<void>
+}
+
+type RpcImplementation<M extends MethodMap> = {
+  [K in keyof M]: (params: ParamsOf<M[K]>, context: RpcCallContext) => Promise<ResultOf<M[K]>>
+}
+
+function defineContract<M extends MethodMap, E extends Record<string, number> = Record<never, number>>(
+  methods: M,
+  errors: E = {} as E
+): RpcContract<M, E> {
+  for (const [name, code] of Object.entries(errors)) {
+    if (code >= -32768 && code <= -32000) {
+      throw new Error(`Error code ${name} (${code}) is in the range reserved for JSON-RPC`)
+    }
+  }
+
+  return {
+    methods,
+    errors,
+    error: (name, message, data) => new RpcError(errors[name], message, data)
+  }
+}
+
+// ============================================================================
+// Client and Router
+// ============================================================================
+
+/**
+ * Typed proxy for calling `targetPk`. Params are checked before
+ * sending (INVALID_PARAMS) and results on arrival (INVALID_RESULT);
+ * remote failures reject with the RpcError code the server sent.
+ */
+function createRpcClient<M extends MethodMap>(
+  handler: PubSubHandler,
+  targetPk: string,
+  contract: RpcContract<M, Record<string, number>>,
+  options: { timeoutMs?: number } = {}
+): RpcClient<M> {
+  const client = {} as RpcClient<M>
+
+  for (const name of Object.keys(contract.methods) as (keyof M & string)[]) {
+    const method = contract.methods[name]
+
+    client[name] = (async (params: unknown) => {
+      const checked = validate(method.params, params, RPC_ERRORS.INVALID_PARAMS, `${name} params`)
+      const result = await handler.request(targetPk, name, checked, options.timeoutMs)
+      return validate(method.result, result, RPC_ERRORS.INVALID_RESULT, `${name} result`)
+    }) as RpcClient<M>[typeof name]
+  }
+
+  return client
+}
+
+/**
+ * Request handler for `PubSubHandler.onRequest`. Rejects unknown
+ * methods and bad params with their JSON-RPC codes, and refuses to
+ * send a result that breaks the contract.
+ */
+function createRpcRouter<M extends MethodMap>(
+  contract: RpcContract<M, Record<string, number>>,
+  implementation: RpcImplementation<M>
+): RequestHandler {
+  return async (name, params, event, { progress }) => {
+    if (!Object.hasOwn(contract.methods, name)) {
+      throw new RpcError(RPC_ERRORS.METHOD_NOT_FOUND, `Unknown method: ${name}`)
+    }
+    const method = contract.methods[name]
+
+    // The method's own schema produced it, so it is that method's params
+    const checked = validate(method.params, params, RPC_ERRORS.INVALID_PARAMS, `${name} params`) as ParamsOf<M[string]>
+    const result = await implementation[name](checked, { event, from: event.pubkey, progress })
+
+    // Our bug, not the caller's: report it as internal
+    return validate(method.result, result, RPC_ERRORS.INTERNAL_ERROR, `${name} result`)
+  }
+}
+
+function validate<T>(schema: Schema<T>, value: unknown, code: number, what: string): T {
+  try {
+    return schema.parse(value)
+  } catch (err) {
+    throw new RpcError(code, `Invalid ${what}: ${err instanceof Error ? err.message : err}`)
+  }
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+const notesApi = defineContract({
+  ping: {
+    params: schema.object({}),
+    result: schema.object({ pong: schema.literal(true), time: schema.number() })
+  },
+  getNote: {
+    params: schema.object({ id: schema.string() }),
+    result: schema.object({ id: schema.string(), text: schema.string(), tags: schema.array(schema.string()) })
+  }
+}, { NOT_FOUND: 404 })
+
+async function main(server: PubSubHandler, caller: PubSubHandler) {
+  const notes = new Map([['n1', { id: 'n1', text: 'Hello', tags: ['intro'] }]])
+
+  // Server: params arrive validated and typed
+  server.onRequest(createRpcRouter(notesApi, {
+    ping: async () => ({ pong: true as const, time: Date.now() }),
+    getNote: async ({ id }) => {
+      const note = notes.get(id)
+      if (!note) throw notesApi.error('NOT_FOUND', `No note ${id}`)
+      return note
+    }
+  }))
+
+  // Caller: typed methods, checked results
+  const api = createRpcClient(caller, await server.getPublicKey(), notesApi, { timeoutMs: 5000 })
+  console.log(await api.ping({}))
+
+  try {
+    await api.getNote({ id: 'missing' })
+  } catch (err) {
+    if (err instanceof RpcError && err.code === notesApi.errors.NOT_FOUND) console.log('Not found')
+  }
+}
+
+// Export
+export { defineContract, createRpcClient, createRpcRouter, schema, SchemaError }
+export type {
+  Schema,
+  Infer,
+  MethodSchema,
+  RpcContract,
+  RpcClient,
+  RpcImplementation,
+  RpcCallContext
+}
@@ -0,0 +1,281 @@
+/**
+ * Sender Policy Template
+ *
+ * Decides whose messages and requests a PubSubHandler acts on: deny
+ * and allow lists, "anyone X follows" via kind 3 contact lists,
+ * per-method caller lists and a token bucket per sender. Rejections
+ * are counted by reason and sender so abuse shows up in stats.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type RejectReason = 'denied' | 'not-allowed' | 'method-forbidden' | 'rate-limited'
+
+interface RateLimit {
+  // Burst size
+  capacity: number
+  refillPerSecond: number
+}
+
+interface SenderPolicyOptions {
+  // Always dropped, without a reply
+  deny?: string[]
+  // With `followsOf`, the only senders let through. Unset: anyone
+  allow?: string[]
+  // Also let through these pubkeys and everyone they follow (kind 3)
+  followsOf?: string[]
+  // How long a loaded contact list is used before refetching
+  followsTtlMs?: number
+  // Method to the only pubkeys that may call it, regardless of `allow`
+  methods?: Record<string, string[]>
+  // Token bucket per sender; each message or request costs one token
+  rateLimit?: RateLimit
+  // Tokens per call for expensive methods
+  methodCosts?: Record<string, number>
+  onReject?: (rejection: Rejection) => void
+}
+
+interface Rejection {
+  sender: string
+  reason: RejectReason
+  // Set for requests
+  method?: string
+  // Rate-limited: when the sender's bucket has enough tokens again
+  retryAfterMs?: number
+  // Whether to answer with an error. False for denied senders and
+  // repeat rate-limit hits, where replies would only feed a flood
+  reply: boolean
+}
+
+interface RejectionStats {
+  total: number
+  byReason: Record<RejectReason, number>
+  // Most recently rejected senders first; capped at MAX_TRACKED_SENDERS
+  bySender: Record<string, number>
+}
+
+interface TokenBucket {
+  tokens: number
+  updatedAt: number
+  // A rate-limit error already went out since the bucket ran dry
+  notified: boolean
+}
+
+interface FollowList {
+  pubkeys: Set<string>
+  expiresAt: number
+  loading: Promise<void> | null
+}
+
+// Bounds per-sender state, which strangers can otherwise grow at will
+const MAX_BUCKETS = 10000
+const MAX_TRACKED_SENDERS = 1000
+
+const FOLLOWS_RETRY_MS = 60 * 1000
+
+// ============================================================================
+// Sender Policy
+// ============================================================================
+
+class SenderPolicy {
+  private deny: Set<string>
+  private allow: Set<string> | null
+  private followsOf: string[]
+  private followsTtlMs: number
+  private methods: Map<string, Set<string>>
+  private rateLimit?: RateLimit
+  private methodCosts: Record<string, number>
+  private onReject?: (rejection: Rejection) => void
+  private loadFollows: (pubkey: string) => Promise<string[]>
+  private follows = new Map<string, FollowList>()
+  private buckets = new Map<string, TokenBucket>()
+  private byReason: Record<RejectReason, number> = {
+    'denied': 0,
+    'not-allowed': 0,
+    'method-forbidden': 0,
+    'rate-limited': 0
+  }
+  private bySender = new Map<string, number>()
+
+  /**
+   * `loadFollows` fetches the pubkeys a user follows; PubSubHandler
+   * supplies one that reads kind 3 from its relays.
+   */
+  constructor(options: SenderPolicyOptions, loadFollows: (pubkey: string) => Promise<string[]> = async () => []) {
+    this.deny = new Set(options.deny)
+    this.followsOf = options.followsOf ?? []
+    this.allow = options.allow || options.followsOf
+      ? new Set([...(options.allow ?? []), ...this.followsOf])
+      : null
+    this.followsTtlMs = options.followsTtlMs ?? 10 * 60 * 1000
+    this.methods = new Map(Object.entries(options.methods ?? {}).map(([method, pks]) => [method, new Set(pks)]))
+    this.rateLimit = options.rateLimit
+    this.methodCosts = options.methodCosts ?? {}
+    this.onReject = options.onReject
+    this.loadFollows = loadFollows
+  }
+
+  /**
+   * Returns why `sender` must be turned away, or null to go ahead.
+   * Pass `method` for requests. A passing check spends tokens.
+   */
+  async check(sender: string, method?: string): Promise<Rejection | null> {
+    const rejection = await this.evaluate(sender, method)
+    if (rejection) this.record(rejection)
+    return rejection
+  }
+
+  private async evaluate(sender: string, method?: string): Promise<Rejection | null> {
+    if (this.deny.has(sender)) return { sender, reason: 'denied', method, reply: false }
+
+    const callers = method !== undefined ? this.methods.get(method) : undefined
+    if (callers) {
+      if (!callers.has(sender)) return { sender, reason: 'method-forbidden', method, reply: true }
+    } else if (!await this.isAllowed(sender)) {
+      return { sender, reason: 'not-allowed', method, reply: true }
+    }
+
+    return this.spend(sender, method)
+  }
+
+  private async isAllowed(sender: string): Promise<boolean> {
+    if (!this.allow || this.allow.has(sender)) return true
+
+    for (const owner of this.followsOf) {
+      if ((await this.getFollows(owner)).has(sender)) return true
+    }
+    return false
+  }
+
+  private async getFollows(owner: string): Promise<Set<string>> {
+    let list = this.follows.get(owner)
+    if (!list) {
+      list = { pubkeys: new Set(), expiresAt: 0, loading: null }
+      this.follows.set(owner, list)
+    }
+
+    if (Date.now() >= list.expiresAt) {
+      const current = list
+      // Concurrent checks share one fetch; a failed one keeps the old
+      // list and is retried sooner
+      current.loading ??= this.loadFollows(owner)
+        .then(pubkeys => {
+          current.pubkeys = new Set(pubkeys)
+          current.expiresAt = Date.now() + this.followsTtlMs
+        })
+        .catch(() => {
+          current.expiresAt = Date.now() + Math.min(this.followsTtlMs, FOLLOWS_RETRY_MS)
+        })
+        .finally(() => { current.loading = null })
+      await current.loading
+    }
+    return list.pubkeys
+  }
+
+  // -------------------------------------------------------------------------
+  // Rate Limiting
+  // -------------------------------------------------------------------------
+
+  private spend(sender: string, method?: string): Rejection | null {
+    if (!this.rateLimit) return null
+    const { capacity, refillPerSecond } = this.rateLimit
+    const cost = method !== undefined ? this.methodCosts[method] ?? 1 : 1
+    const now = Date.now()
+
+    let bucket = this.buckets.get(sender)
+    if (!bucket) {
+      bucket = { tokens: capacity, updatedAt: now, notified: false }
+      this.buckets.set(sender, bucket)
+      if (this.buckets.size > MAX_BUCKETS) this.pruneBuckets(now)
+    } else {
+      bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) / 1000 * refillPerSecond)
+      bucket.updatedAt = now
+    }
+
+    if (bucket.tokens >= cost) {
+      bucket.tokens -= cost
+      bucket.notified = false
+      return null
+    }
+
+    const retryAfterMs = Math.ceil((cost - bucket.tokens) / refillPerSecond * 1000)
+    const reply = !bucket.notified
+    bucket.notified = true
+    return { sender, reason: 'rate-limited', method, retryAfterMs, reply }
+  }
+
+  // Drop buckets that have refilled (their senders went quiet), or
+  // failing that the oldest
+  private pruneBuckets(now: number): void {
+    const { capacity, refillPerSecond } = this.rateLimit!
+    this.buckets.forEach((bucket, sender) => {
+      if (bucket.tokens + (now - bucket.updatedAt) / 1000 * refillPerSecond >= capacity) {
+        this.buckets.delete(sender)
+      }
+    })
+    while (this.buckets.size > MAX_BUCKETS) {
+      this.buckets.delete(this.buckets.keys().next().value!)
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Stats
+  // -------------------------------------------------------------------------
+
+  private record(rejection: Rejection): void {
+    this.byReason[rejection.reason]++
+
+    const count = (this.bySender.get(rejection.sender) ?? 0) + 1
+    // Re-insert so the map stays ordered by most recent rejection
+    this.bySender.delete(rejection.sender)
+    this.bySender.set(rejection.sender, count)
+    if (this.bySender.size > MAX_TRACKED_SENDERS) {
+      this.bySender.delete(this.bySender.keys().next().value!)
+    }
+
+    this.onReject?.(rejection)
+  }
+
+  getStats(): RejectionStats {
+    const byReason = { ...this.byReason }
+    return {
+      total: Object.values(byReason).reduce((sum, n) => sum + n, 0),
+      byReason,
+      bySender: Object.fromEntries([...this.bySender].reverse())
+    }
+  }
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main(ownerPk: string, adminPk: string, spammerPk: string) {
+  const { PubSubHandler } = await import('./pubsub-handler')
+
+  // Serve people the owner follows, at most 5 calls at once and one a
+  // second after that; only the admin may call `reindex`, at 5 tokens
+  const handler = new PubSubHandler({
+    namespace: 'myapp',
+    senderPolicy: {
+      deny: [spammerPk],
+      followsOf: [ownerPk],
+      methods: { reindex: [adminPk] },
+      rateLimit: { capacity: 5, refillPerSecond: 1 },
+      methodCosts: { reindex: 5 },
+      onReject: ({ sender, reason, method }) => console.warn('Rejected', sender.slice(0, 8), reason, method ?? '')
+    }
+  })
+
+  // Only authorized, in-budget requests reach the handler; the rest
+  // get UNAUTHORIZED or RATE_LIMITED errors
+  handler.onRequest(async (method) => ({ ok: method }))
+
+  setInterval(() => console.log('Rejections:', handler.getRejectionStats()), 60000)
+}
+
+// Export
+export { SenderPolicy }
+export type { SenderPolicyOptions, RateLimit, RejectReason, Rejection, RejectionStats }
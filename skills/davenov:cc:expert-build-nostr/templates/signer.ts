@@ -0,0 +1,328 @@
+/**
+ * Signer Template
+ *
+ * A pluggable signing abstraction so clients never need to hold
+ * the raw secret key. Ships with local-key, NIP-07 (browser
+ * extension) and NIP-46 (remote bunker) implementations.
+ */
+
+import { generateSecretKey, getPublicKey, finalizeEvent, verifyEvent } from 'nostr-tools/pure'
+import { SimplePool } from 'nostr-tools/pool'
+import { BunkerSigner, parseBunkerInput } from 'nostr-tools/nip46'
+import * as nip44 from 'nostr-tools/nip44'
+import type { Event, EventTemplate, Filter } from 'nostr-tools'
+import type { BunkerPointer } from 'nostr-tools/nip46'
+import type { WindowNostr } from 'nostr-tools/nip07'
+
+// ============================================================================
+// Signer Interface
+// ============================================================================
+
+/**
+ * Everything a client needs from an identity.
+ * All methods are async so remote signers fit the same shape.
+ */
+interface Signer {
+  getPublicKey(): Promise<string>
+  signEvent(template: EventTemplate): Promise<Event>
+  encrypt(pubkey: string, plaintext: string): Promise<string>
+  decrypt(pubkey: string, ciphertext: string): Promise<string>
+}
+
+// ============================================================================
+// Local Key Signer
+// ============================================================================
+
+class LocalKeySigner implements Signer {
+  private sk: Uint8Array
+  private pk: string
+
+  constructor(sk: Uint8Array = generateSecretKey()) {
+    this.sk = sk
+    this.pk = getPublicKey(sk)
+  }
+
+  async getPublicKey(): Promise<string> {
+    return this.pk
+  }
+
+  async signEvent(template: EventTemplate): Promise<Event> {
+    return finalizeEvent(template, this.sk)
+  }
+
+  async encrypt(pubkey: string, plaintext: string): Promise<string> {
+    const conversationKey = nip44.v2.utils.getConversationKey(this.sk, pubkey)
+    return nip44.v2.encrypt(plaintext, conversationKey)
+  }
+
+  async decrypt(pubkey: string, ciphertext: string): Promise<string> {
+    const conversationKey = nip44.v2.utils.getConversationKey(this.sk, pubkey)
+    return nip44.v2.decrypt(ciphertext, conversationKey)
+  }
+}
+
+// ============================================================================
+// NIP-07 Signer (browser extension)
+// ============================================================================
+
+declare global {
+  interface Window {
+    nostr?: WindowNostr
+  }
+}
+
+class Nip07Signer implements Signer {
+  private cachedPk: string | null = null
+
+  private get nostr(): WindowNostr {
+    if (typeof window === 'undefined' || !window.nostr) {
+      throw new Error('NIP-07 extension not available (window.nostr is missing)')
+    }
+    return window.nostr
+  }
+
+  async getPublicKey(): Promise<string> {
+    if (!this.cachedPk) {
+      this.cachedPk = await this.nostr.getPublicKey()
+    }
+    return this.cachedPk
+  }
+
+  async signEvent(template: EventTemplate): Promise<Event> {
+    const event = await this.nostr.signEvent(template)
+
+    // Never trust the extension blindly
+    if (!verifyEvent(event)) {
+      throw new Error('Extension returned an invalid signature')
+    }
+    return event
+  }
+
+  async encrypt(pubkey: string, plaintext: string): Promise<string> {
+    if (!this.nostr.nip44) throw new Error('Extension does not support NIP-44')
+    return this.nostr.nip44.encrypt(pubkey, plaintext)
+  }
+
+  async decrypt(pubkey: string, ciphertext: string): Promise<string> {
+    if (!this.nostr.nip44) throw new Error('Extension does not support NIP-44')
+    return this.nostr.nip44.decrypt(pubkey, ciphertext)
+  }
+}
+
+// ============================================================================
+// NIP-46 Signer (remote bunker)
+// ============================================================================
+
+interface Nip46SignerOptions {
+  // Local key used only to talk to the bunker, never to sign as the user
+  clientSecretKey?: Uint8Array
+  // Inject a pool to point the signer at local/test relays
+  pool?: SimplePool
+  onAuthUrl?: (url: string) => void
+}
+
+class Nip46Signer implements Signer {
+  private bunker: BunkerSigner
+
+  private constructor(bunker: BunkerSigner) {
+    this.bunker = bunker
+  }
+
+  /**
+   * Connect to a bunker from a `bunker://` URI, a NIP-05 identifier,
+   * or an already parsed pointer.
+   */
+  static async connect(
+    bunker: string | BunkerPointer,
+    options: Nip46SignerOptions = {}
+  ): Promise<Nip46Signer> {
+    const pointer = typeof bunker === 'string' ? await parseBunkerInput(bunker) : bunker
+    if (!pointer) throw new Error('Invalid bunker URI')
+
+    const remote = new BunkerSigner(
+      options.clientSecretKey ?? generateSecretKey(),
+      pointer,
+      { pool: options.pool, onauth: options.onAuthUrl }
+    )
+
+    await remote.connect()
+    return new Nip46Signer(remote)
+  }
+
+  async getPublicKey(): Promise<string> {
+    return this.bunker.getPublicKey()
+  }
+
+  async signEvent(template: EventTemplate): Promise<Event> {
+    const pubkey = await this.getPublicKey()
+    const event = await this.bunker.signEvent({ ...template, pubkey })
+
+    // The bunker could sign something else, or as someone else
+    if (!verifyEvent(event)) throw new Error('Bunker returned an invalid signature')
+    if (event.pubkey !== pubkey || !matchesTemplate(event, template)) {
+      throw new Error('Bunker signed a different event than requested')
+    }
+    return event
+  }
+
+  async encrypt(pubkey: string, plaintext: string): Promise<string> {
+    return this.bunker.nip44Encrypt(pubkey, plaintext)
+  }
+
+  async decrypt(pubkey: string, ciphertext: string): Promise<string> {
+    return this.bunker.nip44Decrypt(pubkey, ciphertext)
+  }
+
+  async close(): Promise<void> {
+    await this.bunker.close()
+  }
+}
+
+function matchesTemplate(event: Event, template: EventTemplate): boolean {
+  return event.kind === template.kind &&
+    event.content === template.content &&
+    event.created_at === template.created_at &&
+    JSON.stringify(event.tags) === JSON.stringify(template.tags)
+}
+
+// ============================================================================
+// Local Bunker (stand-in for testing NIP-46 flows)
+// ============================================================================
+
+const NOSTR_CONNECT_KIND = 24133
+
+interface BunkerRequest {
+  id: string
+  method: string
+  params: string[]
+}
+
+/**
+ * Minimal NIP-46 remote signer. Answers requests for a wrapped signer
+ * so Nip46Signer can be exercised against local relays.
+ * Not meant for production - it approves every request.
+ */
+class LocalBunker {
+  private pool: SimplePool
+  private relays: string[]
+  private signer: LocalKeySigner
+  private secret: string | null
+  private sub: { close: () => void } | null = null
+
+  constructor(
+    relays: string[],
+    options: { signer?: LocalKeySigner; secret?: string; pool?: SimplePool } = {}
+  ) {
+    this.pool = options.pool ?? new SimplePool()
+    this.relays = relays
+    this.signer = options.signer ?? new LocalKeySigner()
+    this.secret = options.secret ?? null
+  }
+
+  async getBunkerUri(): Promise<string> {
+    const pk = await this.signer.getPublicKey()
+    const params = new URLSearchParams()
+    this.relays.forEach(relay => params.append('relay', relay))
+    if (this.secret) params.set('secret', this.secret)
+    return `bunker://${pk}?${params.toString()}`
+  }
+
+  async start(): Promise<void> {
+    const pk = await this.signer.getPublicKey()
+    const filter: Filter = {
+      kinds: [NOSTR_CONNECT_KIND],
+      '#p': [pk],
+      since: Math.floor(Date.now() / 1000) - 10
+    }
+
+    this.sub = this.pool.subscribeMany(this.relays, [filter], {
+      onevent: (event) => { this.handleRequest(event).catch(() => {}) }
+    })
+  }
+
+  private async handleRequest(event: Event): Promise<void> {
+    const request = JSON.parse(await this.signer.decrypt(event.pubkey, event.content)) as BunkerRequest
+    let result: string | undefined
+    let error: string | undefined
+
+    try {
+      result = await this.execute(request)
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err)
+    }
+
+    const response = await this.signer.signEvent({
+      kind: NOSTR_CONNECT_KIND,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [['p', event.pubkey]],
+      content: await this.signer.encrypt(
+        event.pubkey,
+        JSON.stringify({ id: request.id, result, error })
+      )
+    })
+
+    await Promise.any(this.pool.publish(this.relays, response))
+  }
+
+  private async execute({ method, params }: BunkerRequest): Promise<string> {
+    switch (method) {
+      case 'connect':
+        if (this.secret && params[1] !== this.secret) throw new Error('Invalid secret')
+        return 'ack'
+      case 'ping':
+        return 'pong'
+      case 'get_public_key':
+        return this.signer.getPublicKey()
+      case 'sign_event': {
+        const template = JSON.parse(params[0]) as EventTemplate
+        return JSON.stringify(await this.signer.signEvent(template))
+      }
+      case 'nip44_encrypt':
+        return this.signer.encrypt(params[0], params[1])
+      case 'nip44_decrypt':
+        return this.signer.decrypt(params[0], params[1])
+      default:
+        throw new Error(`Unsupported method: ${method}`)
+    }
+  }
+
+  close(): void {
+    this.sub?.close()
+    this.sub = null
+  }
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main() {
+  // Local key (scripts, servers)
+  const local = new LocalKeySigner()
+  console.log('Local pubkey:', await local.getPublicKey())
+
+  // Browser extension (Alby, nos2x, ...)
+  // const extension = new Nip07Signer()
+
+  // Remote bunker - here a local stand-in on a test relay
+  const relays = ['ws://localhost:7777']
+  const bunker = new LocalBunker(relays, { secret: 'test-secret' })
+  await bunker.start()
+
+  const remote = await Nip46Signer.connect(await bunker.getBunkerUri())
+  const event = await remote.signEvent({
+    kind: 1,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [],
+    content: 'Signed remotely'
+  })
+  console.log('Remote signature valid:', verifyEvent(event))
+
+  // Cleanup
+  // await remote.close()
+  // bunker.close()
+}
+
+// Export
+export { LocalKeySigner, Nip07Signer, Nip46Signer, LocalBunker, NOSTR_CONNECT_KIND }
+export type { Signer, Nip46SignerOptions }
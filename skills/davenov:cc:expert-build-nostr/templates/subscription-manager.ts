@@ -0,0 +1,371 @@
+/**
+ * Subscription Manager Template
+ *
+ * Coalesces subscriptions opened close together into shared REQs,
+ * merging filters that differ in a single list field, and fans events
+ * back out to each caller. Caps concurrent REQs per relay, queueing
+ * the rest, and closes a REQ once its last caller has gone.
+ */
+
+import { SimplePool } from 'nostr-tools/pool'
+import { matchFilter } from 'nostr-tools/filter'
+import { normalizeURL } from 'nostr-tools/utils'
+import type { Event, Filter } from 'nostr-tools'
+import type { SubCloser } from 'nostr-tools/pool'
+import type { RelayInformation } from 'nostr-tools/nip11'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SubscriptionManagerOptions {
+  // Upper bound per relay; NIP-11 max_subscriptions lowers it
+  maxSubscriptionsPerRelay?: number
+  // Filters per REQ; NIP-11 max_filters lowers it
+  maxFiltersPerRequest?: number
+  // How long to collect subscriptions before sending REQs
+  batchDelayMs?: number
+  // e.g. RelayManager.getRelayInfo, to respect advertised limits
+  getRelayInfo?: (relay: string) => Promise<RelayInformation | null>
+}
+
+interface ManagedSubscriptionParams {
+  onevent: (event: Event) => void
+  // Once every relay has sent EOSE (or closed the subscription)
+  oneose?: () => void
+  // A relay closed the REQ, or it couldn't be opened there
+  onclose?: (relay: string, reason: string) => void
+  // One-shot: stop after stored events, like querySync
+  closeOnEose?: boolean
+}
+
+interface Consumer {
+  filters: Record<string, Filter>
+  params: ManagedSubscriptionParams
+  pendingEose: Set<string>
+  seen: Set<string>
+  requests: Set<SharedRequest>
+  closed: boolean
+}
+
+interface SharedRequest {
+  relay: string
+  filters: Filter[]
+  consumers: Set<Consumer>
+  closer: SubCloser | null
+  released: boolean
+}
+
+interface RelayQueue {
+  open: number
+  waiting: SharedRequest[]
+  limits?: Promise<{ subscriptions: number; filters: number }>
+}
+
+// Relays reject very long filters; start another group past this
+const MAX_MERGED_VALUES = 500
+
+// Ids each caller remembers to drop copies from other relays; copies
+// arrive close together, so the oldest can go
+const MAX_SEEN_EVENTS = 10000
+
+// ============================================================================
+// Filter Merging
+// ============================================================================
+
+/**
+ * Merge two filters that are identical except for one list field
+ * (e.g. `authors`), or return null. Filters with `limit` never merge:
+ * the limit would apply to the union, starving one of the callers.
+ */
+function mergeFilters(a: Filter, b: Filter): Filter | null {
+  if (a.limit !== undefined || b.limit !== undefined) return null
+
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof Filter>
+  let differing: keyof Filter | null = null
+
+  for (const key of keys) {
+    const av = a[key]
+    const bv = b[key]
+    if (JSON.stringify(av) === JSON.stringify(bv)) continue
+    if (!Array.isArray(av) || !Array.isArray(bv) || differing) return null
+    differing = key
+  }
+  if (!differing) return a
+
+  const merged = [...new Set([...(a[differing] as unknown[]), ...(b[differing] as unknown[])])]
+  if (merged.length > MAX_MERGED_VALUES) return null
+  return { ...a, [differing]: merged }
+}
+
+// ============================================================================
+// Subscription Manager
+// ============================================================================
+
+class SubscriptionManager {
+  private pool: SimplePool
+  private maxSubscriptions: number
+  private maxFilters: number
+  private batchDelayMs: number
+  private getRelayInfo?: (relay: string) => Promise<RelayInformation | null>
+  private relays = new Map<string, RelayQueue>()
+  private pending: Consumer[] = []
+  private active = new Set<SharedRequest>()
+  private flushTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(pool: SimplePool, options: SubscriptionManagerOptions = {}) {
+    this.pool = pool
+    this.maxSubscriptions = options.maxSubscriptionsPerRelay ?? 10
+    this.maxFilters = options.maxFiltersPerRequest ?? 10
+    this.batchDelayMs = options.batchDelayMs ?? 10
+    this.getRelayInfo = options.getRelayInfo
+  }
+
+  /**
+   * Subscribe with one filter per relay. The REQ goes out on the next
+   * flush, merged with whatever else was subscribed in the meantime.
+   */
+  subscribe(requests: Record<string, Filter>, params: ManagedSubscriptionParams): SubCloser {
+    const consumer: Consumer = {
+      filters: requests,
+      params,
+      pendingEose: new Set(Object.keys(requests)),
+      seen: new Set(),
+      requests: new Set(),
+      closed: false
+    }
+
+    this.pending.push(consumer)
+    this.flushTimer ??= setTimeout(() => this.flush(), this.batchDelayMs)
+
+    return { close: () => this.closeConsumer(consumer) }
+  }
+
+  subscribeMany(relays: string[], filter: Filter, params: ManagedSubscriptionParams): SubCloser {
+    return this.subscribe(Object.fromEntries(relays.map(relay => [relay, filter])), params)
+  }
+
+  // Open and queued REQs per relay
+  getStats(): Record<string, { open: number; waiting: number }> {
+    return Object.fromEntries(
+      [...this.relays].map(([relay, q]) => [relay, { open: q.open, waiting: q.waiting.length }])
+    )
+  }
+
+  // -------------------------------------------------------------------------
+  // Batching
+  // -------------------------------------------------------------------------
+
+  private flush(): void {
+    this.flushTimer = null
+    const consumers = this.pending.filter(c => !c.closed)
+    this.pending = []
+
+    const byRelay = new Map<string, Consumer[]>()
+    consumers.forEach(consumer => {
+      Object.keys(consumer.filters).forEach(relay => {
+        byRelay.set(relay, [...(byRelay.get(relay) ?? []), consumer])
+      })
+    })
+
+    byRelay.forEach((relayConsumers, relay) => {
+      this.enqueue(relay, relayConsumers).catch(err => console.error(`Failed to queue REQ for ${relay}:`, err))
+    })
+  }
+
+  private async enqueue(relay: string, consumers: Consumer[]): Promise<void> {
+    const queue = this.getQueue(relay)
+    const { filters: maxFilters } = await queue.limits!
+    consumers = consumers.filter(c => !c.closed)
+
+    // Greedily fold each caller's filter into the first compatible group
+    const groups: { filter: Filter; consumers: Consumer[] }[] = []
+    for (const consumer of consumers) {
+      const filter = consumer.filters[relay]
+      const group = groups.find(g => mergeFilters(g.filter, filter))
+      if (group) {
+        group.filter = mergeFilters(group.filter, filter)!
+        group.consumers.push(consumer)
+      } else {
+        groups.push({ filter, consumers: [consumer] })
+      }
+    }
+
+    // Several groups share one REQ, up to the relay's filter limit
+    for (let i = 0; i < groups.length; i += maxFilters) {
+      const chunk = groups.slice(i, i + maxFilters)
+      const request: SharedRequest = {
+        relay,
+        filters: chunk.map(g => g.filter),
+        consumers: new Set(chunk.flatMap(g => g.consumers)),
+        closer: null,
+        released: false
+      }
+      request.consumers.forEach(c => c.requests.add(request))
+      queue.waiting.push(request)
+    }
+
+    await this.drain(relay)
+  }
+
+  private getQueue(relay: string): RelayQueue {
+    let queue = this.relays.get(relay)
+    if (!queue) {
+      queue = { open: 0, waiting: [] }
+      queue.limits = this.loadLimits(relay)
+      this.relays.set(relay, queue)
+    }
+    return queue
+  }
+
+  private async loadLimits(relay: string): Promise<{ subscriptions: number; filters: number }> {
+    const limitation = this.getRelayInfo ? (await this.getRelayInfo(relay).catch(() => null))?.limitation : undefined
+    return {
+      subscriptions: Math.min(this.maxSubscriptions, limitation?.max_subscriptions || Infinity),
+      filters: Math.min(this.maxFilters, limitation?.max_filters || Infinity)
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Relay Slots
+  // -------------------------------------------------------------------------
+
+  private async drain(relay: string): Promise<void> {
+    const queue = this.getQueue(relay)
+    const { subscriptions: limit } = await queue.limits!
+
+    while (queue.open < limit && queue.waiting.length > 0) {
+      const request = queue.waiting.shift()!
+      if (request.consumers.size === 0) continue
+
+      queue.open++
+      try {
+        // The pool throws on a malformed URL, possibly later than this
+        normalizeURL(relay)
+        request.closer = this.pool.subscribeManyMap({ [relay]: request.filters }, {
+          onevent: (event) => this.deliver(request, event),
+          oneose: () => this.handleEose(request),
+          onclose: (reasons) => {
+            // Either way one-shot callers are done
+            this.handleEose(request)
+            // Still connected means the relay sent CLOSED, and nothing will
+            // reopen the REQ. A dropped connection keeps its slot, since
+            // RelayManager reopens the REQ on reconnect
+            if (!this.isConnected(relay)) return
+            this.release(request)
+            this.notifyClosed(request, reasons.join(', '))
+          }
+        })
+      } catch (err) {
+        queue.open--
+        request.released = true
+        this.handleEose(request)
+        this.notifyClosed(request, err instanceof Error ? err.message : String(err))
+        continue
+      }
+      this.active.add(request)
+    }
+  }
+
+  private notifyClosed(request: SharedRequest, reason: string): void {
+    request.consumers.forEach(consumer => consumer.params.onclose?.(request.relay, reason))
+  }
+
+  private isConnected(relay: string): boolean {
+    return this.pool.listConnectionStatus().get(normalizeURL(relay)) === true
+  }
+
+  private deliver(request: SharedRequest, event: Event): void {
+    request.consumers.forEach(consumer => {
+      if (consumer.seen.has(event.id)) return
+      if (!matchFilter(consumer.filters[request.relay], event)) return
+      consumer.seen.add(event.id)
+      if (consumer.seen.size > MAX_SEEN_EVENTS) consumer.seen.delete(consumer.seen.values().next().value!)
+      consumer.params.onevent(event)
+    })
+  }
+
+  private handleEose(request: SharedRequest): void {
+    Array.from(request.consumers).forEach(consumer => {
+      if (!consumer.pendingEose.delete(request.relay)) return
+      if (consumer.pendingEose.size > 0) return
+
+      consumer.params.oneose?.()
+      if (consumer.params.closeOnEose) this.closeConsumer(consumer)
+    })
+  }
+
+  // -------------------------------------------------------------------------
+  // Teardown
+  // -------------------------------------------------------------------------
+
+  private closeConsumer(consumer: Consumer): void {
+    if (consumer.closed) return
+    consumer.closed = true
+
+    consumer.requests.forEach(request => {
+      request.consumers.delete(consumer)
+      // Last caller gone: close the shared REQ
+      if (request.consumers.size === 0) this.release(request)
+    })
+    consumer.requests.clear()
+  }
+
+  private release(request: SharedRequest): void {
+    if (request.released) return
+    request.released = true
+
+    const queue = this.getQueue(request.relay)
+    if (!request.closer) {
+      queue.waiting = queue.waiting.filter(r => r !== request)
+      return
+    }
+
+    queue.open--
+    this.active.delete(request)
+    request.closer.close()
+    this.drain(request.relay).catch(err => console.error(`Failed to open queued REQ for ${request.relay}:`, err))
+  }
+
+  close(): void {
+    if (this.flushTimer) clearTimeout(this.flushTimer)
+    this.flushTimer = null
+    this.pending = []
+    this.relays.forEach(queue => {
+      queue.waiting = []
+    })
+    this.active.forEach(request => this.release(request))
+  }
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+async function main(pubkeys: string[]) {
+  const pool = new SimplePool()
+  const subs = new SubscriptionManager(pool, { maxSubscriptionsPerRelay: 5 })
+  const relays = ['wss://relay.damus.io', 'wss://nos.lol']
+
+  // One profile view per author: sent as a single REQ with all authors
+  pubkeys.forEach(pk => {
+    subs.subscribeMany(relays, { kinds: [0], authors: [pk] }, {
+      onevent: (event) => console.log('Profile of', pk, event.id),
+      closeOnEose: true
+    })
+  })
+
+  // A live feed keeps its REQ open until closed
+  const feed = subs.subscribeMany(relays, { kinds: [1], since: Math.floor(Date.now() / 1000) }, {
+    onevent: (event) => console.log('Note:', event.id)
+  })
+
+  setTimeout(() => console.log(subs.getStats()), 2000)
+
+  // Cleanup
+  // feed.close()
+}
+
+// Export
+export { SubscriptionManager, mergeFilters }
+export type { SubscriptionManagerOptions, ManagedSubscriptionParams }
@@ -0,0 +1,238 @@
+/**
+ * Threads Template (NIP-10, NIP-18, NIP-25)
+ *
+ * Builds correctly tagged replies, reactions and reposts, and
+ * assembles a flat list of kind 1 events into a reply tree.
+ */
+
+import type { Event, EventTemplate } from 'nostr-tools'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const NOTE_KIND = 1
+const REPOST_KIND = 6
+const REACTION_KIND = 7
+const GENERIC_REPOST_KIND = 16
+
+// ============================================================================
+// Thread References
+// ============================================================================
+
+interface EventRef {
+  id: string
+  relay?: string
+  pubkey?: string
+}
+
+interface ThreadRefs {
+  root?: EventRef
+  reply?: EventRef
+  mentions: EventRef[]
+}
+
+function toRef(tag: string[]): EventRef {
+  return { id: tag[1], relay: tag[2] || undefined, pubkey: tag[4] || undefined }
+}
+
+/**
+ * Read root/reply/mention references from an event. Supports marked
+ * `e` tags and falls back to the deprecated positional scheme.
+ */
+function parseThreadRefs(event: Event): ThreadRefs {
+  const eTags = event.tags.filter(t => t[0] === 'e' && t[1])
+  const marked = eTags.some(t => t[3] === 'root' || t[3] === 'reply')
+
+  if (marked) {
+    const root = eTags.find(t => t[3] === 'root')
+    const reply = eTags.find(t => t[3] === 'reply')
+    return {
+      root: root ? toRef(root) : undefined,
+      // A direct reply to the root only carries the root marker
+      reply: reply ? toRef(reply) : root ? toRef(root) : undefined,
+      mentions: eTags.filter(t => t[3] === 'mention').map(toRef)
+    }
+  }
+
+  // Positional: first = root, last = reply, anything between = mention
+  if (eTags.length === 0) return { mentions: [] }
+  return {
+    root: toRef(eTags[0]),
+    reply: toRef(eTags[eTags.length - 1]),
+    mentions: eTags.slice(1, -1).map(toRef)
+  }
+}
+
+// ============================================================================
+// Event Builders
+// ============================================================================
+
+interface ReplyOptions {
+  relayHint?: string
+  // Pubkeys to notify, or events to cite as NIP-10 mentions
+  mentions?: (string | EventRef)[]
+  selfPk?: string
+}
+
+// `kind:pubkey:d` for addressable events, which readers should follow
+// to the latest version rather than this one
+function getAddress(event: Event): string | null {
+  const d = event.tags.find(t => t[0] === 'd')?.[1]
+  if (event.kind < 30000 || event.kind >= 40000 || d === undefined) return null
+  return `${event.kind}:${event.pubkey}:${d}`
+}
+
+/**
+ * NIP-10 marked tags for a reply to `parent`. Notifies the parent's
+ * author, everyone already in the thread, and the authors of
+ * mentioned events.
+ */
+function buildReplyTags(parent: Event, options: ReplyOptions = {}): string[][] {
+  const relay = options.relayHint ?? ''
+  const parentRefs = parseThreadRefs(parent)
+  const tags: string[][] = []
+
+  if (parentRefs.root) {
+    const root = parentRefs.root
+    tags.push(['e', root.id, root.relay ?? '', 'root', root.pubkey ?? ''])
+    tags.push(['e', parent.id, relay, 'reply', parent.pubkey])
+  } else {
+    tags.push(['e', parent.id, relay, 'root', parent.pubkey])
+  }
+
+  const mentions = options.mentions ?? []
+  const events = mentions.filter((m): m is EventRef => typeof m !== 'string')
+  events.forEach(ref => tags.push(['e', ref.id, ref.relay ?? '', 'mention', ref.pubkey ?? '']))
+
+  const pubkeys = new Set([
+    parent.pubkey,
+    ...parent.tags.filter(t => t[0] === 'p' && t[1]).map(t => t[1]),
+    ...mentions.filter((m): m is string => typeof m === 'string'),
+    ...events.flatMap(ref => ref.pubkey ? [ref.pubkey] : [])
+  ])
+  if (options.selfPk) pubkeys.delete(options.selfPk)
+  pubkeys.forEach(pk => tags.push(['p', pk]))
+
+  return tags
+}
+
+function buildReplyTemplate(parent: Event, content: string, options: ReplyOptions = {}): EventTemplate {
+  return {
+    kind: NOTE_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: buildReplyTags(parent, options),
+    content
+  }
+}
+
+// NIP-25: '+' like, '-' dislike, or an emoji
+function buildReactionTemplate(target: Event, content = '+', relayHint = ''): EventTemplate {
+  const tags = [
+    ['e', target.id, relayHint, target.pubkey],
+    ['p', target.pubkey],
+    ['k', String(target.kind)]
+  ]
+
+  const address = getAddress(target)
+  if (address) tags.push(['a', address, relayHint])
+
+  return {
+    kind: REACTION_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    tags,
+    content
+  }
+}
+
+// NIP-18: kind 6 for notes, kind 16 for anything else
+function buildRepostTemplate(target: Event, relayHint = ''): EventTemplate {
+  const isNote = target.kind === NOTE_KIND
+  const tags = [
+    ['e', target.id, relayHint],
+    ['p', target.pubkey]
+  ]
+  if (!isNote) tags.push(['k', String(target.kind)])
+
+  const address = getAddress(target)
+  if (address) tags.push(['a', address, relayHint])
+
+  return {
+    kind: isNote ? REPOST_KIND : GENERIC_REPOST_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    tags,
+    // Embedding lets readers render the repost without a second fetch
+    content: JSON.stringify(target)
+  }
+}
+
+// ============================================================================
+// Thread Tree
+// ============================================================================
+
+interface ThreadNode {
+  event: Event
+  replies: ThreadNode[]
+}
+
+/**
+ * Assemble replies under the root. Replies whose parent was not
+ * fetched are attached to the root so nothing is silently dropped.
+ */
+function buildThreadTree(root: Event, events: Event[]): ThreadNode {
+  const nodes = new Map<string, ThreadNode>()
+  nodes.set(root.id, { event: root, replies: [] })
+  events
+    .filter(e => e.id !== root.id)
+    .forEach(e => nodes.set(e.id, { event: e, replies: [] }))
+
+  nodes.forEach(node => {
+    if (node.event.id === root.id) return
+    const parentId = parseThreadRefs(node.event).reply?.id
+    const parent = (parentId && nodes.get(parentId)) || nodes.get(root.id)!
+    parent.replies.push(node)
+  })
+
+  // Oldest first at every level
+  const sort = (node: ThreadNode) => {
+    node.replies.sort((a, b) => a.event.created_at - b.event.created_at)
+    node.replies.forEach(sort)
+  }
+  const tree = nodes.get(root.id)!
+  sort(tree)
+
+  return tree
+}
+
+// ============================================================================
+// Usage Example
+// ============================================================================
+
+function main(root: Event, replies: Event[]) {
+  const tree = buildThreadTree(root, replies)
+
+  const print = (node: ThreadNode, depth = 0) => {
+    console.log(`${'  '.repeat(depth)}${node.event.content.slice(0, 60)}`)
+    node.replies.forEach(child => print(child, depth + 1))
+  }
+  print(tree)
+
+  // Reply to the latest message in the thread
+  const template = buildReplyTemplate(replies[replies.length - 1], 'Agreed!')
+  console.log('Reply tags:', template.tags)
+}
+
+// Export
+export {
+  parseThreadRefs,
+  buildReplyTags,
+  buildReplyTemplate,
+  buildReactionTemplate,
+  buildRepostTemplate,
+  buildThreadTree,
+  NOTE_KIND,
+  REPOST_KIND,
+  REACTION_KIND,
+  GENERIC_REPOST_KIND
+}
+export type { EventRef, ThreadRefs, ThreadNode, ReplyOptions }